@@ -33,7 +33,7 @@ export default async function handler(req: any, res: any) {
         // API prefix
         // Note: Vercel rewrite typically handles the routing to this function,
         // but NestJS routing expects the prefix if controllers have it.
-        app.setGlobalPrefix('api');
+        app.setGlobalPrefix('api', { exclude: ['robots.txt'] });
 
         await app.init();
     }
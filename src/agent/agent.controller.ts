@@ -1,6 +1,10 @@
-import { Controller, Get, Post, Body, Logger, HttpException, HttpStatus, Headers, UnauthorizedException } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Logger, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
 import { AgentService } from './agent.service';
+import { PublishSchedulerService } from './publish-scheduler.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { UsageService } from '../usage/usage.service';
+import { Roles } from '../auth/auth.decorators';
+import { CronSecretGuard } from '../auth/cron-secret.guard';
 
 @Controller('agent')
 export class AgentController {
@@ -8,10 +12,13 @@ export class AgentController {
 
     constructor(
         private agentService: AgentService,
+        private publishSchedulerService: PublishSchedulerService,
         private supabaseService: SupabaseService,
+        private usageService: UsageService,
     ) { }
 
     @Get('config')
+    @Roles('admin')
     async getConfig() {
         const { data, error } = await this.supabaseService['supabase']
             .from('agent_config')
@@ -23,7 +30,15 @@ export class AgentController {
     }
 
     @Post('config')
-    async updateConfig(@Body() updates: { interval_minutes?: number; is_active?: boolean }) {
+    @Roles('admin')
+    async updateConfig(@Body() updates: {
+        interval_minutes?: number;
+        is_active?: boolean;
+        daily_budget_usd?: number | null;
+        monthly_budget_usd?: number | null;
+        daily_budget_tokens?: number | null;
+        monthly_budget_tokens?: number | null;
+    }) {
         const { data, error } = await this.supabaseService['supabase']
             .from('agent_config')
             .update(updates)
@@ -39,7 +54,16 @@ export class AgentController {
         return { success: true, data };
     }
 
+    @Get('budget')
+    @Roles('admin')
+    async getBudget() {
+        const budget = await this.agentService.checkBudget();
+        if (!budget) throw new HttpException('Failed to load agent config', HttpStatus.INTERNAL_SERVER_ERROR);
+        return { success: true, data: budget };
+    }
+
     @Get('runs')
+    @Roles('admin')
     async getRuns() {
         const { data, error } = await this.supabaseService['supabase']
             .from('agent_runs')
@@ -51,20 +75,66 @@ export class AgentController {
         return { success: true, data };
     }
 
+    @Get('runs/:id/usage')
+    @Roles('admin')
+    async getRunUsage(@Param('id') id: string) {
+        const usage = await this.usageService.getAgentRunUsage(id);
+        return { success: true, data: usage };
+    }
+
+    /**
+     * Vercel cron entry point; Vercel crons send GET.
+     * Requires `Authorization: Bearer <CRON_SECRET>`.
+     */
+    @Get('trigger')
+    @UseGuards(CronSecretGuard)
+    async triggerAgentFromCron() {
+        return this.triggerAgent();
+    }
+
+    /**
+     * Trigger an agent run. Requires `Authorization: Bearer <CRON_SECRET>`.
+     */
     @Post('trigger')
-    async triggerAgent(@Headers('authorization') authHeader: string) {
-        // Optional: Check CRON_SECRET if environment variable is set
-        if (process.env.CRON_SECRET) {
-            const expected = `Bearer ${process.env.CRON_SECRET}`;
-            if (authHeader !== expected) {
-                // If not Cron, we might want to check for Admin session here in the future.
-                // For now, logging the attempt if it doesn't match cron secret
-                this.logger.log('Trigger request received without matching CRON_SECRET (could be manual admin trigger)');
-            }
-        }
-
-        // Manually trigger a run in the background (awaited for serverless)
+    @UseGuards(CronSecretGuard)
+    async triggerAgent() {
+        // Awaited so the serverless function stays alive for the whole run
+        await this.agentService.executeAgentRun();
+        return { success: true, message: 'Agent run triggered' };
+    }
+
+    /**
+     * Manual run from the admin dashboard
+     */
+    @Post('run')
+    @Roles('admin')
+    async runAgent() {
         await this.agentService.executeAgentRun();
         return { success: true, message: 'Agent run triggered manually' };
     }
+
+    /**
+     * Vercel cron entry point for scheduled publishing; Vercel crons send GET.
+     * The in-process cron publishes every minute, but serverless functions are
+     * frozen between requests, so there this hourly cron is what publishes.
+     * Hourly crons need a Vercel Pro plan; Hobby only allows daily schedules.
+     */
+    @Get('publish-scheduled')
+    @UseGuards(CronSecretGuard)
+    async publishScheduledFromCron() {
+        return this.publishScheduled();
+    }
+
+    /**
+     * Publish scheduled articles that are due
+     */
+    @Post('publish-scheduled')
+    @UseGuards(CronSecretGuard)
+    async publishScheduled() {
+        const published = await this.publishSchedulerService.publishDueArticles();
+        return {
+            success: true,
+            data: published.map(article => ({ id: article.id, slug: article.slug, published_at: article.published_at })),
+        };
+    }
 }
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { AgentService } from './agent.service';
+import { PublishSchedulerService } from './publish-scheduler.service';
 import { AgentController } from './agent.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { GeminiModule } from '../gemini/gemini.module';
 import { ArticlesModule } from '../articles/articles.module';
+import { UsageModule } from '../usage/usage.module';
+import { PromptsModule } from '../prompts/prompts.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
     imports: [
@@ -12,9 +17,13 @@ import { ArticlesModule } from '../articles/articles.module';
         SupabaseModule,
         GeminiModule,
         ArticlesModule,
+        UsageModule,
+        PromptsModule,
+        WorkflowModule,
+        AuthModule,
     ],
-    providers: [AgentService],
+    providers: [AgentService, PublishSchedulerService],
     controllers: [AgentController],
-    exports: [AgentService],
+    exports: [AgentService, PublishSchedulerService],
 })
 export class AgentModule { }
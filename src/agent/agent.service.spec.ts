@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { LlmUsage, SupabaseService } from '../supabase/supabase.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { ArticlesService } from '../articles/articles.service';
+import { UsageService } from '../usage/usage.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { AgentService } from './agent.service';
+
+describe('AgentService budget gate', () => {
+    const usage = (overrides: Partial<LlmUsage>): Partial<LlmUsage> => ({
+        model: 'gemini-2.0-flash',
+        llm_stage: 'writing',
+        prompt_tokens: 1000,
+        completion_tokens: 1000,
+        image_count: 0,
+        latency_ms: 100,
+        created_at: new Date().toISOString(),
+        ...overrides,
+    });
+
+    const createAgent = (config: Record<string, unknown> | null, spentToday: Partial<LlmUsage>[], pastRuns: Partial<LlmUsage>[]) => {
+        const inserts: { table: string; row: Record<string, unknown> }[] = [];
+        const client = {
+            from: (table: string) => {
+                const builder = {
+                    select: () => builder,
+                    update: () => builder,
+                    eq: () => builder,
+                    insert: (row: Record<string, unknown>) => {
+                        inserts.push({ table, row });
+                        return builder;
+                    },
+                    single: () => Promise.resolve(table !== 'agent_config'
+                        ? { data: { id: 'agent-run-1', logs: '' }, error: null }
+                        : config
+                            ? { data: config, error: null }
+                            : { data: null, error: { message: 'relation "agent_config" does not exist' } }),
+                    then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+                };
+                return builder;
+            },
+        };
+        const supabase = {
+            supabase: client,
+            getLlmUsage: jest.fn().mockImplementation((filter: { agentRunsOnly?: boolean }) =>
+                Promise.resolve(filter.agentRunsOnly ? pastRuns : spentToday)),
+            recordLlmUsage: jest.fn(),
+            getAllArticleTitles: jest.fn().mockResolvedValue([]),
+        };
+        const gemini = { generateText: jest.fn().mockResolvedValue('Rust for data engineers') };
+        const articles = { generateArticle: jest.fn().mockResolvedValue({ article: { id: 'article-1' }, errors: [] }) };
+        const prompts = { render: jest.fn().mockResolvedValue('Brainstorm') };
+
+        const agent = new AgentService(
+            {} as SchedulerRegistry,
+            supabase as unknown as SupabaseService,
+            gemini as unknown as GeminiService,
+            articles as unknown as ArticlesService,
+            new UsageService({ get: () => undefined } as unknown as ConfigService, supabase as unknown as SupabaseService),
+            prompts as unknown as PromptsService,
+        );
+        return { agent, inserts, gemini, articles };
+    };
+
+    it('records a run that would exceed the budget as skipped_budget without calling the LLM', async () => {
+        const { agent, inserts, gemini, articles } = createAgent(
+            { daily_budget_usd: 1 },
+            [usage({ cost_usd: 0.9 })],
+            [usage({ agent_run_id: 'agent-run-0', cost_usd: 0.2 })],
+        );
+
+        await agent.executeAgentRun();
+
+        expect(inserts).toHaveLength(1);
+        expect(inserts[0]).toMatchObject({ table: 'agent_runs', row: { status: 'skipped_budget' } });
+        expect(inserts[0].row.logs).toContain('Daily USD budget');
+        expect(gemini.generateText).not.toHaveBeenCalled();
+        expect(articles.generateArticle).not.toHaveBeenCalled();
+    });
+
+    it('runs when spend plus the estimate fits the budget', async () => {
+        const { agent, inserts, articles } = createAgent({ daily_budget_usd: 1 }, [usage({ cost_usd: 0.9 })], []);
+
+        await agent.executeAgentRun();
+
+        expect(inserts[0].row).toMatchObject({ status: 'searching' });
+        expect(articles.generateArticle).toHaveBeenCalledWith('Rust for data engineers');
+    });
+
+    it('skips the run when the budget cannot be checked', async () => {
+        const { agent, inserts, articles } = createAgent(null, [], []);
+
+        await agent.executeAgentRun();
+
+        expect(inserts).toHaveLength(1);
+        expect(inserts[0]).toMatchObject({ table: 'agent_runs', row: { status: 'skipped_budget' } });
+        expect(inserts[0].row.logs).toContain('agent config failed to load');
+        expect(articles.generateArticle).not.toHaveBeenCalled();
+    });
+});
@@ -1,9 +1,12 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
 import { CronJob } from 'cron';
-import { SupabaseService } from '../supabase/supabase.service';
+import { SupabaseService, AgentConfig } from '../supabase/supabase.service';
 import { GeminiService } from '../gemini/gemini.service';
 import { ArticlesService } from '../articles/articles.service';
+import { runWithUsageContext } from '../usage/usage-context';
+import { UsageService, BudgetCheck } from '../usage/usage.service';
+import { PromptsService } from '../prompts/prompts.service';
 
 @Injectable()
 export class AgentService implements OnModuleInit {
@@ -15,6 +18,8 @@ export class AgentService implements OnModuleInit {
         private supabaseService: SupabaseService,
         private geminiService: GeminiService,
         private articlesService: ArticlesService,
+        private usageService: UsageService,
+        private promptsService: PromptsService,
     ) { }
 
     async onModuleInit() {
@@ -28,15 +33,8 @@ export class AgentService implements OnModuleInit {
     async setupScheduler() {
         try {
             // 1. Get configuration
-            const { data: config, error } = await this.supabaseService['supabase']
-                .from('agent_config')
-                .select('*')
-                .single();
-
-            if (error || !config) {
-                this.logger.error('Failed to load agent config', error);
-                return;
-            }
+            const config = await this.loadConfig();
+            if (!config) return;
 
             if (!config.is_active) {
                 this.logger.log('Agent is disabled in config.');
@@ -96,6 +94,28 @@ export class AgentService implements OnModuleInit {
     async executeAgentRun() {
         this.logger.log('Starting autonomous agent run...');
 
+        // 0. Refuse to start if the run would push spend over budget, or if the
+        // budget can't be checked at all
+        const budget = await this.checkBudget();
+        if (!budget || !budget.allowed) {
+            const reason = budget
+                ? budget.reasons.join('; ')
+                : 'Budget could not be checked because the agent config failed to load';
+            this.logger.warn(`Skipping agent run: ${reason}`);
+            const { error: skipError } = await this.supabaseService['supabase']
+                .from('agent_runs')
+                .insert({
+                    status: 'skipped_budget',
+                    logs: `[${new Date().toISOString()}] Skipped: ${reason}`,
+                    completed_at: new Date().toISOString(),
+                });
+
+            if (skipError) {
+                this.logger.error('Failed to record skipped agent run', skipError);
+            }
+            return;
+        }
+
         // 1. Create run record
         const { data: run, error: runError } = await this.supabaseService['supabase']
             .from('agent_runs')
@@ -108,34 +128,66 @@ export class AgentService implements OnModuleInit {
             return;
         }
 
-        try {
-            // 2. Brainstorm topic
-            await this.updateRunStatus(run.id, 'searching', 'Brainstorming unique tech topic...');
-            const topicPrompt = await this.brainstormTopic();
-
-            await this.updateRunStatus(run.id, 'generating', `Topic selected: ${topicPrompt}`, topicPrompt);
-
-            // 3. Trigger generation
-            this.logger.log(`Triggering article generation for: ${topicPrompt}`);
-            const result = await this.articlesService.generateArticle(topicPrompt);
+        // Attribute every LLM call made during this run, including the pipeline's, to the run
+        await runWithUsageContext({ agentRunId: run.id }, async () => {
+            try {
+                // 2. Brainstorm topic
+                await this.updateRunStatus(run.id, 'searching', 'Brainstorming unique tech topic...');
+                const topicPrompt = await this.brainstormTopic();
+
+                await this.updateRunStatus(run.id, 'generating', `Topic selected: ${topicPrompt}`, topicPrompt);
+
+                // 3. Trigger generation
+                this.logger.log(`Triggering article generation for: ${topicPrompt}`);
+                const result = await this.articlesService.generateArticle(topicPrompt);
+
+                // 4. Finalize
+                if (result.article?.id) {
+                    await this.updateRunStatus(run.id, 'completed', 'Article generated successfully.', topicPrompt, result.article.id);
+
+                    // Update last_run_at in config
+                    await this.supabaseService['supabase']
+                        .from('agent_config')
+                        .update({ last_run_at: new Date().toISOString() })
+                        .eq('is_active', true); // Assuming single record
+                } else {
+                    throw new Error(result.errors?.join(', ') || 'Generation failed without error message');
+                }
+
+            } catch (err) {
+                this.logger.error('Agent run failed', err);
+                await this.updateRunStatus(run.id, 'failed', `Error: ${err.message}`);
+            }
+        });
+    }
 
-            // 4. Finalize
-            if (result.article?.id) {
-                await this.updateRunStatus(run.id, 'completed', 'Article generated successfully.', topicPrompt, result.article.id);
+    /**
+     * Compare today's and this month's LLM spend against the budgets in agent_config.
+     * Returns null if the config cannot be loaded; agent runs are skipped then.
+     */
+    async checkBudget(): Promise<BudgetCheck | null> {
+        const config = await this.loadConfig();
+        if (!config) return null;
+
+        return this.usageService.checkBudget({
+            dailyBudgetUsd: config.daily_budget_usd,
+            monthlyBudgetUsd: config.monthly_budget_usd,
+            dailyBudgetTokens: config.daily_budget_tokens,
+            monthlyBudgetTokens: config.monthly_budget_tokens,
+        });
+    }
 
-                // Update last_run_at in config
-                await this.supabaseService['supabase']
-                    .from('agent_config')
-                    .update({ last_run_at: new Date().toISOString() })
-                    .eq('is_active', true); // Assuming single record
-            } else {
-                throw new Error(result.errors?.join(', ') || 'Generation failed without error message');
-            }
+    private async loadConfig(): Promise<AgentConfig | null> {
+        const result = await this.supabaseService['supabase']
+            .from('agent_config')
+            .select('*')
+            .single();
 
-        } catch (err) {
-            this.logger.error('Agent run failed', err);
-            await this.updateRunStatus(run.id, 'failed', `Error: ${err.message}`);
+        if (result.error || !result.data) {
+            this.logger.error('Failed to load agent config', result.error);
+            return null;
         }
+        return result.data as AgentConfig;
     }
 
     /**
@@ -144,25 +196,14 @@ export class AgentService implements OnModuleInit {
     async brainstormTopic(): Promise<string> {
         const existingTitles = await this.supabaseService.getAllArticleTitles();
 
-        const systemInstruction = `You are a cutting-edge tech journalist and trend scout. Your goal is to find a fresh, highly relevant, and unique topic for a new technical article.
-        
-FOCUS AREAS:
-- Major framework updates (React, Next.js, NestJS, Go, Rust, etc.)
-- Innovative tools or libraries in the AI/Dev ecosystem
-- Critical security vulnerabilities or interesting "bugs of the week"
-- New innovations in web performance, edge computing, or cloud-native tech
-
-UNIQUENESS RULE:
-You MUST NOT cover topics that overlap with these existing titles:
-[${existingTitles.join(', ')}]
-
-OUTPUT:
-Provide a detailed, compelling article topic/prompt that includes the specific tech, the "hook" (why it's important now), and a hint of the technical depth. 
-Return ONLY the topic prompt string (max 200 chars).`;
+        const systemInstruction = await this.promptsService.render('brainstorm', {
+            existing_titles: existingTitles.join(', '),
+        });
 
         const response = await this.geminiService.generateText(
             "Find a unique and trending tech topic to write about today.",
-            systemInstruction
+            systemInstruction,
+            'brainstorm',
         );
 
         return response.trim();
@@ -0,0 +1,68 @@
+import { Article, SupabaseService } from '../supabase/supabase.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { IllegalTransitionError } from '../workflow/article-workflow';
+import { PublishSchedulerService } from './publish-scheduler.service';
+
+describe('PublishSchedulerService', () => {
+    const scheduled = (id: string) => ({ id, title: id, status: 'scheduled', publish_at: '2026-01-01T09:00:00.000Z' }) as Article;
+
+    const createService = (due: Article[]) => {
+        const supabase = { getDueScheduledArticles: jest.fn().mockResolvedValue(due) };
+        const workflow = {
+            transition: jest.fn().mockImplementation((id: string) => Promise.resolve({ ...scheduled(id), status: 'published' })),
+        };
+        const service = new PublishSchedulerService(
+            supabase as unknown as SupabaseService,
+            workflow as unknown as ArticleWorkflowService,
+        );
+        return { service, supabase, workflow };
+    };
+
+    it('publishes every article that is due as of now', async () => {
+        const { service, supabase, workflow } = createService([scheduled('article-1'), scheduled('article-2')]);
+        const before = new Date().toISOString();
+
+        const published = await service.publishDueArticles();
+
+        const [now] = supabase.getDueScheduledArticles.mock.calls[0] as [string];
+        expect(now >= before && now <= new Date().toISOString()).toBe(true);
+        expect(published.map(article => article.id)).toEqual(['article-1', 'article-2']);
+        expect(workflow.transition).toHaveBeenCalledWith('article-1', 'published', {
+            actor: 'scheduler',
+            reason: 'Scheduled for 2026-01-01T09:00:00.000Z',
+        });
+    });
+
+    it('skips articles that were unscheduled meanwhile and keeps going after a failure', async () => {
+        const { service, workflow } = createService([scheduled('article-1'), scheduled('article-2'), scheduled('article-3')]);
+        workflow.transition
+            .mockRejectedValueOnce(new IllegalTransitionError('draft', 'published'))
+            .mockRejectedValueOnce(new Error('connection reset'));
+
+        const published = await service.publishDueArticles();
+
+        expect(published.map(article => article.id)).toEqual(['article-3']);
+    });
+
+    it('catches up on overdue articles at bootstrap', async () => {
+        const { service, workflow } = createService([scheduled('article-1')]);
+
+        service.onApplicationBootstrap();
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(workflow.transition).toHaveBeenCalledWith('article-1', 'published', expect.anything());
+    });
+
+    it('does not start a second pass while one is running', async () => {
+        const { service, supabase } = createService([scheduled('article-1')]);
+
+        const [first, second] = await Promise.all([service.publishDueArticles(), service.publishDueArticles()]);
+
+        expect(first).toHaveLength(1);
+        expect(second).toEqual([]);
+        expect(supabase.getDueScheduledArticles).toHaveBeenCalledTimes(1);
+
+        await service.publishDueArticles();
+        expect(supabase.getDueScheduledArticles).toHaveBeenCalledTimes(2);
+    });
+});
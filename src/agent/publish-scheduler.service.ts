@@ -0,0 +1,70 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseService, Article } from '../supabase/supabase.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { IllegalTransitionError } from '../workflow/article-workflow';
+
+/**
+ * Publishes scheduled articles once their publish_at has passed.
+ * Schedules live only in the database, so nothing is lost on restart:
+ * overdue articles are picked up on boot and then every minute.
+ */
+@Injectable()
+export class PublishSchedulerService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(PublishSchedulerService.name);
+    private running = false;
+
+    constructor(
+        private supabaseService: SupabaseService,
+        private workflowService: ArticleWorkflowService,
+    ) { }
+
+    onApplicationBootstrap() {
+        // Catch up on anything that came due while the app was down
+        void this.publishDueArticles();
+    }
+
+    @Cron(CronExpression.EVERY_MINUTE, { name: 'scheduled_publishing' })
+    async handleCron() {
+        await this.publishDueArticles();
+    }
+
+    /**
+     * Publish every scheduled article that is due.
+     * Returns the articles published by this call.
+     */
+    async publishDueArticles(): Promise<Article[]> {
+        if (this.running) return [];
+        this.running = true;
+
+        const published: Article[] = [];
+        try {
+            const due = await this.supabaseService.getDueScheduledArticles(new Date().toISOString());
+
+            for (const article of due) {
+                try {
+                    const result = await this.workflowService.transition(article.id, 'published', {
+                        actor: 'scheduler',
+                        reason: `Scheduled for ${article.publish_at}`,
+                    });
+                    if (!result) continue;
+
+                    published.push(result);
+                    this.logger.log(`Published scheduled article "${result.title}" (${result.id})`);
+                } catch (error) {
+                    if (error instanceof IllegalTransitionError) {
+                        // Unscheduled or published by another instance in the meantime
+                        continue;
+                    }
+                    this.logger.error(`Failed to publish scheduled article ${article.id}`, error);
+                }
+            }
+        } catch (error) {
+            this.logger.error('Failed to load scheduled articles', error);
+        } finally {
+            this.running = false;
+        }
+
+        return published;
+    }
+}
@@ -8,6 +8,12 @@ import { SupabaseModule } from './supabase/supabase.module';
 import { PipelineModule } from './pipeline/pipeline.module';
 import { ArticlesModule } from './articles/articles.module';
 import { AgentModule } from './agent/agent.module';
+import { UsageModule } from './usage/usage.module';
+import { AuthModule } from './auth/auth.module';
+import { FeedsModule } from './feeds/feeds.module';
+import { SitemapModule } from './sitemap/sitemap.module';
+import { PromptsModule } from './prompts/prompts.module';
+import { StyleProfilesModule } from './style-profiles/style-profiles.module';
 import * as path from 'path';
 
 @Module({
@@ -22,6 +28,12 @@ import * as path from 'path';
     PipelineModule,
     ArticlesModule,
     AgentModule,
+    UsageModule,
+    AuthModule,
+    FeedsModule,
+    SitemapModule,
+    PromptsModule,
+    StyleProfilesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
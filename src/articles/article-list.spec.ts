@@ -0,0 +1,25 @@
+import { Article } from '../supabase/supabase.service';
+import { decodeCursor, encodeCursor } from './article-list';
+
+describe('article list cursors', () => {
+    const article = { id: 'article-1', published_at: '2026-03-01T10:00:00.000Z', title: 'Rust, "fast" & safe' } as Article;
+
+    it('round-trips the sort value and id', () => {
+        expect(decodeCursor(encodeCursor('published_at', article), 'published_at'))
+            .toEqual({ value: '2026-03-01T10:00:00.000Z', id: 'article-1' });
+        expect(decodeCursor(encodeCursor('title', article), 'title'))
+            .toEqual({ value: 'Rust, "fast" & safe', id: 'article-1' });
+    });
+
+    it('rejects a cursor issued for another sort field', () => {
+        expect(decodeCursor(encodeCursor('published_at', article), 'created_at')).toBeNull();
+    });
+
+    it('rejects malformed cursors', () => {
+        const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+        expect(decodeCursor('not a cursor', 'title')).toBeNull();
+        expect(decodeCursor(encode({ sort: 'title', value: 42, id: 'article-1' }), 'title')).toBeNull();
+        expect(decodeCursor(encode({ sort: 'title', value: 'a' }), 'title')).toBeNull();
+    });
+});
@@ -0,0 +1,64 @@
+import type { Article, ArticleSortField } from '../supabase/supabase.service';
+
+export const ARTICLE_SORT_FIELDS: ArticleSortField[] = ['published_at', 'updated_at', 'created_at', 'title'];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Query options shared by the article listing endpoints
+ */
+export interface ArticleListQuery {
+    limit?: number;
+    offset?: number;
+    cursor?: string;
+    sort?: ArticleSortField;
+    order?: 'asc' | 'desc';
+    /** Category slug */
+    category?: string;
+    /** Author (profile) id */
+    author?: string;
+    q?: string;
+    featured?: boolean;
+    locale?: string;
+    from?: string;
+    to?: string;
+    /** `full` includes the article body; lists omit it by default */
+    fields?: 'summary' | 'full';
+}
+
+export interface ArticleListPage {
+    items: Article[];
+    total: number;
+    limit: number;
+    nextCursor: string | null;
+}
+
+interface CursorPayload {
+    sort: ArticleSortField;
+    value: string;
+    id: string;
+}
+
+/**
+ * Opaque cursor pointing just after the given row in the given sort order
+ */
+export function encodeCursor(sort: ArticleSortField, article: Article): string {
+    const payload: CursorPayload = { sort, value: String(article[sort]), id: article.id };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, or return null if it is malformed or was issued for another sort field
+ */
+export function decodeCursor(cursor: string, sort: ArticleSortField): { value: string; id: string } | null {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CursorPayload>;
+        if (payload.sort !== sort || typeof payload.value !== 'string' || typeof payload.id !== 'string') {
+            return null;
+        }
+        return { value: payload.value, id: payload.id };
+    } catch {
+        return null;
+    }
+}
@@ -11,9 +11,28 @@ import {
     Headers,
     HttpException,
     HttpStatus,
+    HttpCode,
+    ParseUUIDPipe,
+    UploadedFile,
+    UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ArticlesService } from './articles.service';
-import { IsString, IsOptional, MinLength, IsIn } from 'class-validator';
+import type { ImageReplacement } from './articles.service';
+import { UsageService } from '../usage/usage.service';
+import { SearchService } from '../search/search.service';
+import { SocialCardsService } from '../social-cards/social-cards.service';
+import { ARTICLE_SORT_FIELDS, ArticleListPage, MAX_PAGE_SIZE } from './article-list';
+import type { ArticleSortField } from '../supabase/supabase.service';
+import { ARTICLE_STATUSES } from '../workflow/article-workflow';
+import type { ArticleStatus } from '../workflow/article-workflow';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { EDITORIAL_ROLES, STAFF_ROLES, USER_ROLES } from '../auth/roles';
+import type { AuthenticatedUser, UserRole } from '../auth/roles';
+import { languageName, SUPPORTED_LOCALES } from '../translation/locales';
+import type { Locale } from '../translation/locales';
+import { IsString, IsOptional, MinLength, IsIn, IsISO8601, IsInt, Min, Max, IsBoolean, IsUUID } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 
 // DTOs
 class GenerateArticleDto {
@@ -21,9 +40,121 @@ class GenerateArticleDto {
     @MinLength(3)
     topic: string;
 
+    // Defaults to the caller; only editors and admins may set someone else
     @IsOptional()
     @IsString()
     author_id?: string;
+
+    // Brand voice for the writing stages; the default voice when omitted
+    @IsOptional()
+    @IsUUID()
+    style_profile_id?: string;
+
+    // Language to write the article in; English when omitted
+    @IsOptional()
+    @IsIn(SUPPORTED_LOCALES)
+    locale?: Locale;
+}
+
+class ListArticlesQueryDto {
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(MAX_PAGE_SIZE)
+    limit?: number;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset?: number;
+
+    @IsOptional()
+    @IsString()
+    cursor?: string;
+
+    @IsOptional()
+    @IsIn(ARTICLE_SORT_FIELDS)
+    sort?: ArticleSortField;
+
+    @IsOptional()
+    @IsIn(['asc', 'desc'])
+    order?: 'asc' | 'desc';
+
+    @IsOptional()
+    @IsString()
+    category?: string;
+
+    @IsOptional()
+    @IsString()
+    author?: string;
+
+    @IsOptional()
+    @IsString()
+    q?: string;
+
+    @IsOptional()
+    @Transform(({ value }) => value === 'true' || value === true)
+    @IsBoolean()
+    featured?: boolean;
+
+    @IsOptional()
+    @IsIn(SUPPORTED_LOCALES)
+    locale?: Locale;
+
+    @IsOptional()
+    @IsISO8601()
+    from?: string;
+
+    @IsOptional()
+    @IsISO8601()
+    to?: string;
+
+    @IsOptional()
+    @IsIn(['summary', 'full'])
+    fields?: 'summary' | 'full';
+}
+
+class AdminListArticlesQueryDto extends ListArticlesQueryDto {
+    @IsOptional()
+    @IsIn(ARTICLE_STATUSES)
+    status?: ArticleStatus;
+
+    @IsOptional()
+    @IsIn(['true', 'false'])
+    mine?: string;
+}
+
+class SearchArticlesQueryDto {
+    @IsString()
+    @MinLength(1)
+    q: string;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(50)
+    limit?: number;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset?: number;
+
+    @IsOptional()
+    @IsString()
+    category?: string;
+
+    @IsOptional()
+    @IsString()
+    author?: string;
+
+    @IsOptional()
+    @IsIn(SUPPORTED_LOCALES)
+    locale?: Locale;
 }
 
 class UpdateProfileDto {
@@ -31,6 +162,10 @@ class UpdateProfileDto {
     @IsString()
     full_name?: string;
 
+    @IsOptional()
+    @IsIn(USER_ROLES)
+    role?: UserRole;
+
     @IsOptional()
     @IsString()
     avatar_url?: string;
@@ -54,6 +189,51 @@ class UpdateArticleDto {
     meta_description?: string;
 }
 
+class ChangeStatusDto {
+    @IsIn(ARTICLE_STATUSES)
+    status: ArticleStatus;
+
+    @IsOptional()
+    @IsString()
+    reason?: string;
+}
+
+class ScheduleArticleDto {
+    @IsISO8601()
+    publish_at: string;
+}
+
+class RegenerateImageDto {
+    // Defaults to the image's current prompt
+    @IsOptional()
+    @IsString()
+    @MinLength(3)
+    prompt?: string;
+}
+
+class UploadImageDto {
+    // Image record to replace; a new record is added when omitted
+    @IsOptional()
+    @IsUUID()
+    image_id?: string;
+
+    @IsOptional()
+    @IsString()
+    prompt?: string;
+
+    // Generated from the prompt when omitted
+    @IsOptional()
+    @IsString()
+    alt?: string;
+}
+
+const MAX_IMAGE_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+class TranslateArticleDto {
+    @IsIn(SUPPORTED_LOCALES)
+    locale: Locale;
+}
+
 class UpdateThemeDto {
     @IsOptional()
     @IsString()
@@ -78,21 +258,44 @@ class UpdateThemeDto {
 
 @Controller('articles')
 export class ArticlesController {
-    constructor(private readonly articlesService: ArticlesService) { }
+    constructor(
+        private readonly articlesService: ArticlesService,
+        private readonly usageService: UsageService,
+        private readonly searchService: SearchService,
+        private readonly socialCardsService: SocialCardsService,
+    ) { }
 
     /**
      * POST /api/articles/generate
-     * Start the AI content generation pipeline
+     * Queue the AI content generation pipeline.
+     * Poll GET /api/pipeline/jobs/:jobId for progress.
      */
     @Post('generate')
-    async generateArticle(@Body() dto: GenerateArticleDto) {
+    @Roles(...STAFF_ROLES)
+    @HttpCode(HttpStatus.ACCEPTED)
+    async generateArticle(@Body() dto: GenerateArticleDto, @CurrentUser() user: AuthenticatedUser) {
+        // Articles belong to the caller unless an editor assigns someone else
+        const authorId = dto.author_id ?? user.id;
+        if (authorId !== user.id && !EDITORIAL_ROLES.includes(user.role)) {
+            throw new HttpException('Only editors and admins can generate articles for another author', HttpStatus.FORBIDDEN);
+        }
+
         try {
-            const result = await this.articlesService.generateArticle(dto.topic, dto.author_id);
+            const job = await this.articlesService.queueArticleGeneration(dto.topic, {
+                author_id: authorId,
+                style_profile_id: dto.style_profile_id,
+                locale: dto.locale,
+            });
             return {
                 success: true,
-                data: result,
+                data: {
+                    jobId: job.id,
+                    status: job.status,
+                    topic: job.topic,
+                },
             };
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             throw new HttpException(
                 `Failed to generate article: ${error}`,
                 HttpStatus.INTERNAL_SERVER_ERROR,
@@ -101,31 +304,34 @@ export class ArticlesController {
     }
 
     /**
-     * GET /api/articles
-     * Get all articles, optionally filtered by status
+     * GET /api/articles?status=&mine=true
+     * List articles for the dashboard, optionally filtered by status or to the caller's own.
+     * Supports the same paging, sorting and filters as /published.
      */
     @Get()
+    @Roles(...STAFF_ROLES)
     async getArticles(
-        @Query('status') status?: 'draft' | 'processing' | 'review' | 'published',
+        @CurrentUser() user: AuthenticatedUser,
+        @Query() query: AdminListArticlesQueryDto,
     ) {
-        const articles = await this.articlesService.getArticles(status);
-        return {
-            success: true,
-            data: articles,
-        };
+        const page = await this.articlesService.getArticles(query, {
+            status: query.status,
+            authorId: query.mine === 'true' ? user.id : undefined,
+        });
+        return this.pageResponse(page);
     }
 
     /**
      * GET /api/articles/published
-     * Get published articles for public blog
+     * Get published articles for public blog.
+     * ?limit=&offset= or ?cursor= (from nextCursor), ?sort=published_at|updated_at|created_at|title&order=asc|desc,
+     * filters ?category=slug&author=id&q=keyword&featured=true&from=&to= (to is exclusive),
+     * and ?fields=full to include the article body.
      */
     @Get('published')
-    async getPublishedArticles() {
-        const articles = await this.articlesService.getPublishedArticles();
-        return {
-            success: true,
-            data: articles,
-        };
+    async getPublishedArticles(@Query() query: ListArticlesQueryDto) {
+        const page = await this.articlesService.getPublishedArticles(query);
+        return this.pageResponse(page);
     }
 
     /**
@@ -141,6 +347,42 @@ export class ArticlesController {
         };
     }
 
+    /**
+     * GET /api/articles/search?q=&category=&author=&locale=&limit=&offset=
+     * Ranked full-text search over published articles with highlighted
+     * snippets and category/author facets. Tolerates typos.
+     */
+    @Get('search')
+    async searchArticles(@Query() query: SearchArticlesQueryDto) {
+        const limit = query.limit ?? 10;
+        const results = await this.searchService.search(query.q, {
+            limit,
+            offset: query.offset ?? 0,
+            category: query.category,
+            author: query.author,
+            locale: query.locale,
+        });
+        return {
+            success: true,
+            data: results.hits.map(hit => ({
+                id: hit.document.id,
+                slug: hit.document.slug,
+                title: hit.document.title,
+                meta_description: hit.document.metaDescription,
+                thumbnail_url: hit.document.thumbnailUrl,
+                published_at: hit.document.publishedAt,
+                category_id: hit.document.categoryId,
+                author_id: hit.document.authorId,
+                locale: hit.document.locale,
+                score: hit.score,
+                snippet: hit.snippet,
+            })),
+            facets: results.facets,
+            total: results.total,
+            limit,
+        };
+    }
+
     // ============ CATEGORIES (must be before :id routes) ============
 
     /**
@@ -161,14 +403,17 @@ export class ArticlesController {
      * Get category by slug with articles
      */
     @Get('categories/:slug')
-    async getCategoryBySlug(@Param('slug') slug: string) {
-        const result = await this.articlesService.getCategoryWithArticles(slug);
+    async getCategoryBySlug(@Param('slug') slug: string, @Query() query: ListArticlesQueryDto) {
+        const result = await this.articlesService.getCategoryWithArticles(slug, query);
         if (!result) {
             throw new HttpException('Category not found', HttpStatus.NOT_FOUND);
         }
         return {
             success: true,
-            data: result,
+            data: { category: result.category, articles: result.articles.items },
+            total: result.articles.total,
+            limit: result.articles.limit,
+            nextCursor: result.articles.nextCursor,
         };
     }
 
@@ -192,6 +437,7 @@ export class ArticlesController {
      * Update theme settings
      */
     @Put('theme/settings')
+    @Roles('admin')
     async updateTheme(@Body() dto: UpdateThemeDto) {
         try {
             const theme = await this.articlesService.updateTheme(dto);
@@ -207,6 +453,31 @@ export class ArticlesController {
         }
     }
 
+    /**
+     * GET /api/articles/slug/:slug/rendered
+     * Get article body as sanitized HTML with TOC, word count and reading time.
+     * Must be declared before slug/*slug, which would otherwise swallow the suffix.
+     */
+    @Get('slug/*slug/rendered')
+    async getRenderedArticleBySlug(@Param('slug') slug: string | string[]) {
+        const result = await this.articlesService.getRenderedArticleBySlug(
+            Array.isArray(slug) ? slug.join('/') : slug,
+        );
+        if (!result) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: {
+                article: result.article,
+                html: result.rendered.html,
+                toc: result.rendered.toc,
+                word_count: result.rendered.wordCount,
+                reading_time_minutes: result.rendered.readingTimeMinutes,
+            },
+        };
+    }
+
     /**
      * GET /api/articles/slug/*
      * Get article by slug (for public frontend)
@@ -263,6 +534,7 @@ export class ArticlesController {
      * Get all newsletter subscribers (Admin only)
      */
     @Get('admin/subscribers')
+    @Roles('admin')
     async getSubscribers() {
         const subscribers = await this.articlesService.getSubscribers();
         return {
@@ -276,6 +548,7 @@ export class ArticlesController {
      * List all user profiles
      */
     @Get('admin/profiles')
+    @Roles('admin')
     async listProfiles() {
         const profiles = await this.articlesService.listProfiles();
         return {
@@ -289,6 +562,7 @@ export class ArticlesController {
      * Get profile by ID
      */
     @Get('admin/profiles/:id')
+    @Roles('admin')
     async getProfile(@Param('id') id: string) {
         const profile = await this.articlesService.getProfile(id);
         if (!profile) {
@@ -305,6 +579,7 @@ export class ArticlesController {
      * Update profile
      */
     @Put('admin/profiles/:id')
+    @Roles('admin')
     async updateProfile(
         @Param('id') id: string,
         @Body() dto: UpdateProfileDto,
@@ -331,6 +606,7 @@ export class ArticlesController {
      * Get single article with images and components
      */
     @Get(':id')
+    @Roles(...STAFF_ROLES)
     async getArticle(@Param('id') id: string) {
         const result = await this.articlesService.getArticleById(id);
         if (!result) {
@@ -342,67 +618,414 @@ export class ArticlesController {
         };
     }
 
+    /**
+     * GET /api/articles/:id/usage
+     * LLM token usage and cost for an article
+     */
+    @Get(':id/usage')
+    @Roles(...EDITORIAL_ROLES)
+    async getArticleUsage(@Param('id') id: string) {
+        const usage = await this.usageService.getArticleUsage(id);
+        return {
+            success: true,
+            data: usage,
+        };
+    }
+
+    /**
+     * GET /api/articles/:id/revisions
+     * List content revisions, newest first
+     */
+    @Get(':id/revisions')
+    @Roles(...STAFF_ROLES)
+    async getRevisions(@Param('id') id: string) {
+        const revisions = await this.articlesService.getRevisions(id);
+        return {
+            success: true,
+            data: revisions,
+        };
+    }
+
+    /**
+     * GET /api/articles/:id/revisions/diff?from=:revId&to=:revId|current
+     * Line-level diff between two revisions (must be before :revId)
+     */
+    @Get(':id/revisions/diff')
+    @Roles(...STAFF_ROLES)
+    async getRevisionDiff(
+        @Param('id') id: string,
+        @Query('from') from?: string,
+        @Query('to') to = 'current',
+    ) {
+        if (!from) {
+            throw new HttpException('Query parameter "from" is required', HttpStatus.BAD_REQUEST);
+        }
+        const result = await this.articlesService.getRevisionDiff(id, from, to);
+        if (!result) {
+            throw new HttpException('Revision not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: result,
+        };
+    }
+
+    /**
+     * GET /api/articles/:id/revisions/:revId
+     * Get a single revision with its content
+     */
+    @Get(':id/revisions/:revId')
+    @Roles(...STAFF_ROLES)
+    async getRevision(@Param('id') id: string, @Param('revId') revId: string) {
+        const revision = await this.articlesService.getRevision(id, revId);
+        if (!revision) {
+            throw new HttpException('Revision not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: revision,
+        };
+    }
+
+    /**
+     * POST /api/articles/:id/revisions/:revId/restore
+     * Restore title and content from a revision
+     */
+    @Post(':id/revisions/:revId/restore')
+    @Roles(...STAFF_ROLES)
+    async restoreRevision(
+        @Param('id') id: string,
+        @Param('revId') revId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        let article;
+        try {
+            article = await this.articlesService.restoreRevision(id, revId, user);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to restore revision: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!article) {
+            throw new HttpException('Revision not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+            message: 'Revision restored successfully',
+        };
+    }
+
     /**
      * POST /api/articles/:id/publish
      * Publish an article
      */
     @Post(':id/publish')
-    async publishArticle(@Param('id') id: string) {
+    @Roles(...EDITORIAL_ROLES)
+    async publishArticle(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+        let article;
         try {
-            const article = await this.articlesService.publishArticle(id);
-            return {
-                success: true,
-                data: article,
-                message: 'Article published successfully',
-            };
+            article = await this.articlesService.publishArticle(id, user.id);
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             throw new HttpException(
                 `Failed to publish: ${error}`,
                 HttpStatus.INTERNAL_SERVER_ERROR,
             );
         }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+            message: 'Article published successfully',
+        };
+    }
+
+    /**
+     * POST /api/articles/:id/schedule
+     * Schedule an approved article to be published at publish_at
+     */
+    @Post(':id/schedule')
+    @Roles(...EDITORIAL_ROLES)
+    async scheduleArticle(
+        @Param('id') id: string,
+        @Body() dto: ScheduleArticleDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        const publishAt = new Date(dto.publish_at);
+        if (publishAt.getTime() <= Date.now()) {
+            throw new HttpException('publish_at must be in the future', HttpStatus.BAD_REQUEST);
+        }
+
+        let article;
+        try {
+            article = await this.articlesService.scheduleArticle(id, publishAt, user.id);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to schedule: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+            message: `Article scheduled for ${article.publish_at}`,
+        };
+    }
+
+    /**
+     * POST /api/articles/:id/status
+     * Move an article through the editorial workflow. Authors may submit
+     * their own drafts for review; every other change needs an editor.
+     * Returns 409 if the transition is not allowed from the current status.
+     */
+    @Post(':id/status')
+    @Roles(...STAFF_ROLES)
+    async changeStatus(
+        @Param('id') id: string,
+        @Body() dto: ChangeStatusDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        let article;
+        try {
+            article = await this.articlesService.changeStatus(id, dto.status, user, dto.reason);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to change status: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+        };
+    }
+
+    /**
+     * GET /api/articles/:id/status-history
+     * Audit trail of status changes with actor and reason
+     */
+    @Get(':id/status-history')
+    @Roles(...STAFF_ROLES)
+    async getStatusHistory(@Param('id') id: string) {
+        const history = await this.articlesService.getStatusHistory(id);
+        return {
+            success: true,
+            data: history,
+        };
+    }
+
+    /**
+     * POST /api/articles/:id/images/:imageId/regenerate
+     * Generate a replacement image, optionally from an edited prompt
+     */
+    @Post(':id/images/:imageId/regenerate')
+    @Roles(...STAFF_ROLES)
+    async regenerateImage(
+        @Param('id') id: string,
+        @Param('imageId', ParseUUIDPipe) imageId: string,
+        @Body() dto: RegenerateImageDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        let result;
+        try {
+            result = await this.articlesService.regenerateImage(id, imageId, dto.prompt, user);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to regenerate image: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!result) {
+            throw new HttpException('Article or image not found', HttpStatus.NOT_FOUND);
+        }
+        return this.imageResponse(result);
+    }
+
+    /**
+     * POST /api/articles/:id/images
+     * Upload an image (multipart field "file"), replacing image_id if given
+     */
+    @Post(':id/images')
+    @Roles(...STAFF_ROLES)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES } }))
+    async uploadImage(
+        @Param('id') id: string,
+        @UploadedFile() file: Express.Multer.File | undefined,
+        @Body() dto: UploadImageDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        if (!file) {
+            throw new HttpException('Missing file', HttpStatus.BAD_REQUEST);
+        }
+
+        let result;
+        try {
+            result = await this.articlesService.uploadImage(id, file.buffer, {
+                imageId: dto.image_id,
+                prompt: dto.prompt,
+                alt: dto.alt,
+            }, user);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to upload image: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!result) {
+            throw new HttpException('Article or image not found', HttpStatus.NOT_FOUND);
+        }
+        return this.imageResponse(result);
+    }
+
+    /**
+     * POST /api/articles/:id/translate
+     * Translate an article into another locale. The translation is a new
+     * article in review, linked to the original through translation_group_id.
+     */
+    @Post(':id/translate')
+    @Roles(...EDITORIAL_ROLES)
+    async translateArticle(
+        @Param('id') id: string,
+        @Body() dto: TranslateArticleDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        let article;
+        try {
+            article = await this.articlesService.translateArticle(id, dto.locale, user);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to translate article: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+            message: `Article translated into ${languageName(dto.locale)}`,
+        };
+    }
+
+    /**
+     * POST /api/articles/:id/og-image
+     * Regenerate the article's 1200x630 social card (og_image_url)
+     */
+    @Post(':id/og-image')
+    @Roles(...EDITORIAL_ROLES)
+    async regenerateSocialCard(@Param('id') id: string) {
+        let article;
+        try {
+            article = await this.socialCardsService.generate(id);
+        } catch (error) {
+            throw new HttpException(
+                `Failed to generate social card: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: { og_image_url: article.og_image_url },
+        };
     }
 
     /**
      * PUT /api/articles/:id
-     * Update article content
+     * Update article content. Authors may only edit their own drafts.
      */
     @Put(':id')
+    @Roles(...STAFF_ROLES)
     async updateArticle(
         @Param('id') id: string,
         @Body() dto: UpdateArticleDto,
+        @CurrentUser() user: AuthenticatedUser,
     ) {
+        let article;
         try {
-            const article = await this.articlesService.updateArticle(id, dto);
-            return {
-                success: true,
-                data: article,
-            };
+            article = await this.articlesService.updateArticle(id, dto, user);
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             throw new HttpException(
                 `Failed to update: ${error}`,
                 HttpStatus.INTERNAL_SERVER_ERROR,
             );
         }
+        if (!article) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: article,
+        };
     }
 
     /**
      * DELETE /api/articles/:id
-     * Delete an article
+     * Delete an article. Authors may only delete their own drafts.
      */
     @Delete(':id')
-    async deleteArticle(@Param('id') id: string) {
+    @Roles(...STAFF_ROLES)
+    async deleteArticle(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+        let deleted: boolean;
         try {
-            await this.articlesService.deleteArticle(id);
-            return {
-                success: true,
-                message: 'Article deleted successfully',
-            };
+            deleted = await this.articlesService.deleteArticle(id, user);
         } catch (error) {
+            if (error instanceof HttpException) throw error;
             throw new HttpException(
                 `Failed to delete: ${error}`,
                 HttpStatus.INTERNAL_SERVER_ERROR,
             );
         }
+        if (!deleted) {
+            throw new HttpException('Article not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            message: 'Article deleted successfully',
+        };
+    }
+
+    private pageResponse(page: ArticleListPage) {
+        return {
+            success: true,
+            data: page.items,
+            total: page.total,
+            limit: page.limit,
+            nextCursor: page.nextCursor,
+        };
+    }
+
+    private imageResponse(result: ImageReplacement) {
+        return {
+            success: true,
+            data: {
+                image: result.image,
+                alt: result.alt,
+                content_updated: result.contentUpdated,
+            },
+            message: result.contentUpdated
+                ? 'Image replaced'
+                : 'Image saved; the article has no link to update, so insert it manually',
+        };
     }
 }
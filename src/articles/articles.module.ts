@@ -3,9 +3,32 @@ import { ArticlesController } from './articles.controller';
 import { ArticlesService } from './articles.service';
 import { PipelineModule } from '../pipeline/pipeline.module';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { UsageModule } from '../usage/usage.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { AuthModule } from '../auth/auth.module';
+import { SearchModule } from '../search/search.module';
+import { RenderingModule } from '../rendering/rendering.module';
+import { StructuredDataModule } from '../structured-data/structured-data.module';
+import { SocialCardsModule } from '../social-cards/social-cards.module';
+import { GeminiModule } from '../gemini/gemini.module';
+import { ImagesModule } from '../images/images.module';
+import { TranslationModule } from '../translation/translation.module';
 
 @Module({
-    imports: [PipelineModule, SupabaseModule],
+    imports: [
+        PipelineModule,
+        SupabaseModule,
+        UsageModule,
+        WorkflowModule,
+        AuthModule,
+        SearchModule,
+        RenderingModule,
+        StructuredDataModule,
+        SocialCardsModule,
+        GeminiModule,
+        ImagesModule,
+        TranslationModule,
+    ],
     controllers: [ArticlesController],
     providers: [ArticlesService],
     exports: [ArticlesService],
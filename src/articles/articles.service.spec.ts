@@ -0,0 +1,94 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ArticlesService } from './articles.service';
+import { Article, SupabaseService } from '../supabase/supabase.service';
+import { PipelineService } from '../pipeline/pipeline.service';
+import { PipelineQueueService } from '../pipeline/pipeline-queue.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { RenderingService } from '../rendering/rendering.service';
+import { StructuredDataService } from '../structured-data/structured-data.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { ImagesService } from '../images/images.service';
+import { TranslationService } from '../translation/translation.service';
+import { AuthenticatedUser } from '../auth/roles';
+
+describe('ArticlesService ownership', () => {
+    const author: AuthenticatedUser = { id: 'author-1', email: null, role: 'author' };
+    const otherAuthor: AuthenticatedUser = { id: 'author-2', email: null, role: 'author' };
+    const editor: AuthenticatedUser = { id: 'editor-1', email: null, role: 'editor' };
+
+    const createService = (article: Partial<Article>) => {
+        const supabase = {
+            getArticle: jest.fn().mockResolvedValue({ id: 'article-1', author_id: 'author-1', status: 'draft', ...article }),
+            updateArticle: jest.fn().mockResolvedValue({ id: 'article-1' }),
+            deleteArticle: jest.fn().mockResolvedValue(undefined),
+        };
+        const workflow = {
+            transition: jest.fn().mockImplementation((id: string, to: Article['status']) => Promise.resolve({ id, status: to })),
+        };
+        const service = new ArticlesService(
+            supabase as unknown as SupabaseService,
+            {} as PipelineService,
+            {} as PipelineQueueService,
+            workflow as unknown as ArticleWorkflowService,
+            {} as RenderingService,
+            {} as StructuredDataService,
+            {} as GeminiService,
+            {} as ImagesService,
+            {} as TranslationService,
+        );
+        return { service, supabase, workflow };
+    };
+
+    const expectForbidden = async (promise: Promise<unknown>) => {
+        await expect(promise).rejects.toBeInstanceOf(HttpException);
+        await expect(promise).rejects.toMatchObject({ status: HttpStatus.FORBIDDEN });
+    };
+
+    it('lets authors edit their own drafts and attributes the revision to them', async () => {
+        const { service, supabase } = createService({});
+
+        await service.updateArticle('article-1', { title: 'New' }, author);
+
+        expect(supabase.updateArticle).toHaveBeenCalledWith('article-1', { title: 'New' }, 'user:author-1');
+    });
+
+    it("forbids authors from touching someone else's article", async () => {
+        const { service, supabase } = createService({});
+
+        await expectForbidden(service.updateArticle('article-1', { title: 'New' }, otherAuthor));
+        await expectForbidden(service.deleteArticle('article-1', otherAuthor));
+        expect(supabase.updateArticle).not.toHaveBeenCalled();
+        expect(supabase.deleteArticle).not.toHaveBeenCalled();
+    });
+
+    it('forbids authors from changing their article once it left draft', async () => {
+        const { service } = createService({ status: 'review' });
+
+        await expectForbidden(service.deleteArticle('article-1', author));
+    });
+
+    it('lets authors submit their own draft for review, and nothing more', async () => {
+        const { service, workflow } = createService({});
+
+        await expect(service.changeStatus('article-1', 'review', author, 'Ready')).resolves.toMatchObject({ status: 'review' });
+        expect(workflow.transition).toHaveBeenCalledWith('article-1', 'review', { actor: 'author-1', reason: 'Ready' });
+
+        await expectForbidden(service.changeStatus('article-1', 'archived', author));
+        await expectForbidden(service.changeStatus('article-1', 'review', otherAuthor));
+        expect(workflow.transition).toHaveBeenCalledTimes(1);
+    });
+
+    it('forbids authors from moving an article that already left draft', async () => {
+        const { service, workflow } = createService({ status: 'review' });
+
+        await expectForbidden(service.changeStatus('article-1', 'review', author));
+        expect(workflow.transition).not.toHaveBeenCalled();
+    });
+
+    it('lets editors act on any article', async () => {
+        const { service, supabase } = createService({ status: 'published' });
+
+        await expect(service.deleteArticle('article-1', editor)).resolves.toBe(true);
+        expect(supabase.deleteArticle).toHaveBeenCalledWith('article-1');
+    });
+});
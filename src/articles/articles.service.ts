@@ -1,74 +1,158 @@
-import { Injectable } from '@nestjs/common';
-import { SupabaseService, Article, ArticleImage, ArticleComponent } from '../supabase/supabase.service';
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import sharp from 'sharp';
+import { SupabaseService, Article, ArticleImage, ArticleComponent, ArticleListOptions, ArticleRevision, PipelineRun, PipelineRunOptions, Profile } from '../supabase/supabase.service';
 import { PipelineService, PipelineResult } from '../pipeline/pipeline.service';
+import { PipelineQueueService } from '../pipeline/pipeline-queue.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { RenderingService } from '../rendering/rendering.service';
+import { RenderedMarkdown } from '../rendering/markdown';
+import { StructuredDataService } from '../structured-data/structured-data.service';
+import { JsonLd } from '../structured-data/json-ld';
+import { GeminiService } from '../gemini/gemini.service';
+import { ImagesService } from '../images/images.service';
+import { TranslationService } from '../translation/translation.service';
+import type { HreflangAlternate } from '../translation/hreflang';
+import { runWithUsageContext } from '../usage/usage-context';
+import { replaceImageLink } from './image-links';
+import { ArticleStatus } from '../workflow/article-workflow';
+import { EDITORIAL_ROLES } from '../auth/roles';
+import type { AuthenticatedUser } from '../auth/roles';
+import { diffLines, LineDiff } from './revision-diff';
+import { ArticleListPage, ArticleListQuery, decodeCursor, DEFAULT_PAGE_SIZE, encodeCursor, MAX_PAGE_SIZE } from './article-list';
+
+export interface ImageReplacement {
+    article: Article;
+    image: ArticleImage;
+    alt: string;
+    /** False when the article had no markdown link to the previous image */
+    contentUpdated: boolean;
+}
 
 @Injectable()
 export class ArticlesService {
     constructor(
         private supabaseService: SupabaseService,
         private pipelineService: PipelineService,
+        private pipelineQueueService: PipelineQueueService,
+        private workflowService: ArticleWorkflowService,
+        private renderingService: RenderingService,
+        private structuredDataService: StructuredDataService,
+        private geminiService: GeminiService,
+        private imagesService: ImagesService,
+        private translationService: TranslationService,
     ) { }
 
     /**
-     * Start the content generation pipeline for a new topic
+     * Run the content generation pipeline for a new topic and wait for it to finish
      */
-    async generateArticle(topic: string, author_id?: string): Promise<PipelineResult> {
-        return this.pipelineService.executePipeline(topic, author_id);
+    async generateArticle(topic: string, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+        await this.assertStyleProfileExists(options.style_profile_id);
+        return this.pipelineService.executePipeline(topic, options);
     }
 
     /**
-     * Get all articles with optional status filter
+     * Queue the content generation pipeline for a new topic and return the job immediately
      */
-    async getArticles(status?: Article['status']): Promise<Article[]> {
-        if (status) {
-            return this.supabaseService.getArticlesByStatus(status);
-        }
-        return this.supabaseService.getAllArticles();
+    async queueArticleGeneration(topic: string, options: PipelineRunOptions = {}): Promise<PipelineRun> {
+        await this.assertStyleProfileExists(options.style_profile_id);
+        return this.pipelineQueueService.enqueue(topic, options);
+    }
+
+    /**
+     * List articles for the admin dashboard, optionally limited to a status or author
+     */
+    async getArticles(
+        query: ArticleListQuery,
+        scope: { status?: Article['status']; authorId?: string } = {},
+    ): Promise<ArticleListPage> {
+        return this.listArticles(query, { ...scope, defaultSort: 'created_at' });
     }
 
     /**
-     * Get single article by ID with images and components
+     * Get single article by ID with images, components, JSON-LD and every translation
      */
     async getArticleById(id: string): Promise<{
         article: Article;
         images: ArticleImage[];
         components: ArticleComponent[];
+        json_ld: JsonLd[];
+        alternates: HreflangAlternate[];
     } | null> {
         const article = await this.supabaseService.getArticle(id);
         if (!article) return null;
 
-        const [images, components] = await Promise.all([
+        const [images, components, alternates] = await Promise.all([
             this.supabaseService.getArticleImages(id),
             this.supabaseService.getArticleComponents(id),
+            this.translationService.getAlternates(article),
         ]);
+        const json_ld = await this.structuredDataService.forArticle(article, components);
 
-        return { article, images, components };
+        return { article, images, components, json_ld, alternates };
     }
 
     /**
-     * Get article by slug (for public frontend)
+     * Get article by slug (for public frontend) with images, components, JSON-LD
+     * and hreflang alternates for its published translations
      */
     async getArticleBySlug(slug: string): Promise<{
         article: Article;
         images: ArticleImage[];
         components: ArticleComponent[];
+        json_ld: JsonLd[];
+        alternates: HreflangAlternate[];
     } | null> {
         const article = await this.supabaseService.getArticleBySlug(slug);
         if (!article) return null;
 
-        const [images, components] = await Promise.all([
+        const [images, components, alternates] = await Promise.all([
             this.supabaseService.getArticleImages(article.id),
             this.supabaseService.getArticleComponents(article.id),
+            this.translationService.getAlternates(article, true),
         ]);
+        const json_ld = await this.structuredDataService.forArticle(article, components);
 
-        return { article, images, components };
+        return { article, images, components, json_ld, alternates };
+    }
+
+    /**
+     * Translate an article into another locale as a new linked article
+     */
+    async translateArticle(id: string, locale: string, user: AuthenticatedUser): Promise<Article | null> {
+        return this.translationService.translate(id, locale, user);
+    }
+
+    /**
+     * Get an article's body as sanitized HTML with its table of contents and
+     * reading stats (for frontends that don't render markdown themselves)
+     */
+    async getRenderedArticleBySlug(slug: string): Promise<{
+        article: Pick<Article, 'id' | 'slug' | 'title' | 'meta_description' | 'thumbnail_url' | 'published_at' | 'updated_at' | 'author'>;
+        rendered: RenderedMarkdown;
+    } | null> {
+        const article = await this.supabaseService.getArticleBySlug(slug);
+        if (!article) return null;
+
+        return {
+            article: {
+                id: article.id,
+                slug: article.slug,
+                title: article.title,
+                meta_description: article.meta_description,
+                thumbnail_url: article.thumbnail_url,
+                published_at: article.published_at,
+                updated_at: article.updated_at,
+                author: article.author,
+            },
+            rendered: this.renderingService.render(article),
+        };
     }
 
     /**
      * Get published articles for public blog
      */
-    async getPublishedArticles(): Promise<Article[]> {
-        return this.supabaseService.getPublishedArticles();
+    async getPublishedArticles(query: ArticleListQuery): Promise<ArticleListPage> {
+        return this.listArticles(query, { status: 'published', defaultSort: 'published_at' });
     }
 
     /**
@@ -79,24 +163,342 @@ export class ArticlesService {
     }
 
     /**
-     * Publish an article
+     * Publish an approved or scheduled article.
+     * Returns null if the article does not exist.
+     */
+    async publishArticle(id: string, actor: string): Promise<Article | null> {
+        return this.workflowService.transition(id, 'published', { actor });
+    }
+
+    /**
+     * Schedule an approved article to be published at a future time.
+     * Returns null if the article does not exist.
+     */
+    async scheduleArticle(id: string, publishAt: Date, actor: string): Promise<Article | null> {
+        return this.workflowService.transition(id, 'scheduled', {
+            actor,
+            reason: `Publish at ${publishAt.toISOString()}`,
+            updates: { publish_at: publishAt.toISOString() },
+        });
+    }
+
+    /**
+     * Move an article through the editorial workflow (approve, reject, archive...).
+     * Authors may only submit their own drafts for review.
+     * Returns null if the article does not exist.
+     */
+    async changeStatus(id: string, status: ArticleStatus, user: AuthenticatedUser, reason?: string): Promise<Article | null> {
+        if (!EDITORIAL_ROLES.includes(user.role)) {
+            const article = await this.supabaseService.getArticle(id);
+            if (!article) return null;
+            this.assertCanModify(article, user);
+            if (status !== 'review') {
+                throw new HttpException('Authors can only submit drafts for review', HttpStatus.FORBIDDEN);
+            }
+        }
+
+        return this.workflowService.transition(id, status, { actor: user.id, reason });
+    }
+
+    /**
+     * Audit trail of status changes, oldest first
+     */
+    async getStatusHistory(id: string) {
+        return this.workflowService.getHistory(id);
+    }
+
+    /**
+     * Update article content (for admin edits), saving a revision attributed to the editor.
+     * Returns null if the article does not exist.
+     */
+    async updateArticle(id: string, updates: Partial<Article>, user: AuthenticatedUser): Promise<Article | null> {
+        const article = await this.supabaseService.getArticle(id);
+        if (!article) return null;
+        this.assertCanModify(article, user);
+
+        return this.supabaseService.updateArticle(id, updates, `user:${user.id}`);
+    }
+
+    /**
+     * Delete an article. Returns false if the article does not exist.
+     */
+    async deleteArticle(id: string, user: AuthenticatedUser): Promise<boolean> {
+        const article = await this.supabaseService.getArticle(id);
+        if (!article) return false;
+        this.assertCanModify(article, user);
+
+        await this.supabaseService.deleteArticle(id);
+        return true;
+    }
+
+    /**
+     * Run a list query. Throws 400 for a malformed or mismatched cursor.
+     */
+    private async listArticles(
+        query: ArticleListQuery,
+        scope: { status?: Article['status']; authorId?: string; categoryId?: string; defaultSort: ArticleListOptions['sort'] },
+    ): Promise<ArticleListPage> {
+        const sort = query.sort ?? scope.defaultSort;
+        const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+        let after: ArticleListOptions['after'];
+        if (query.cursor) {
+            after = decodeCursor(query.cursor, sort) ?? undefined;
+            if (!after) {
+                throw new HttpException('Invalid cursor for this sort order', HttpStatus.BAD_REQUEST);
+            }
+        }
+
+        let categoryId = scope.categoryId;
+        if (!categoryId && query.category) {
+            const category = await this.supabaseService.getCategoryBySlug(query.category);
+            if (!category) return { items: [], total: 0, limit, nextCursor: null };
+            categoryId = category.id;
+        }
+
+        const { articles, total, hasMore } = await this.supabaseService.listArticles({
+            status: scope.status,
+            authorId: scope.authorId ?? query.author,
+            categoryId,
+            featured: query.featured,
+            locale: query.locale,
+            keyword: query.q?.trim() || undefined,
+            from: query.from,
+            to: query.to,
+            sort,
+            ascending: (query.order ?? (sort === 'title' ? 'asc' : 'desc')) === 'asc',
+            limit,
+            offset: query.offset,
+            after,
+            full: query.fields === 'full',
+        });
+
+        const last = articles[articles.length - 1];
+        return {
+            items: articles,
+            total,
+            limit,
+            nextCursor: hasMore && last ? encodeCursor(sort, last) : null,
+        };
+    }
+
+    /**
+     * Editors and admins may change any article; authors only their own drafts.
+     * Throws 403 otherwise.
      */
-    async publishArticle(id: string): Promise<Article> {
-        return this.supabaseService.publishArticle(id);
+    private assertCanModify(article: Article, user: AuthenticatedUser) {
+        if (EDITORIAL_ROLES.includes(user.role)) return;
+
+        if (article.author_id !== user.id) {
+            throw new HttpException('You can only modify your own articles', HttpStatus.FORBIDDEN);
+        }
+        if (article.status !== 'draft') {
+            throw new HttpException(`Authors can only modify drafts (article is ${article.status})`, HttpStatus.FORBIDDEN);
+        }
     }
 
     /**
-     * Update article content (for admin edits)
+     * Throws 400 if a style profile was requested that doesn't exist
      */
-    async updateArticle(id: string, updates: Partial<Article>): Promise<Article> {
-        return this.supabaseService.updateArticle(id, updates);
+    private async assertStyleProfileExists(id?: string | null) {
+        if (id && !(await this.supabaseService.getStyleProfile(id))) {
+            throw new HttpException('Style profile not found', HttpStatus.BAD_REQUEST);
+        }
     }
 
+    // ============ IMAGES ============
+
     /**
-     * Delete an article
+     * Generate a new image for an existing slot, optionally with an edited prompt.
+     * Returns null if the article or image does not exist.
      */
-    async deleteArticle(id: string): Promise<void> {
-        return this.supabaseService.deleteArticle(id);
+    async regenerateImage(
+        articleId: string,
+        imageId: string,
+        prompt: string | undefined,
+        user: AuthenticatedUser,
+    ): Promise<ImageReplacement | null> {
+        const [article, image] = await Promise.all([
+            this.supabaseService.getArticle(articleId),
+            this.supabaseService.getArticleImage(articleId, imageId),
+        ]);
+        if (!article || !image) return null;
+        this.assertCanModify(article, user);
+
+        const finalPrompt = prompt ?? image.prompt;
+        const png = await runWithUsageContext({ articleId }, () => this.geminiService.generateImage(finalPrompt));
+        if (!png) {
+            throw new HttpException('Image generation returned no image', HttpStatus.BAD_GATEWAY);
+        }
+
+        return this.replaceImage(article, image, png, finalPrompt, undefined, user);
+    }
+
+    /**
+     * Store an uploaded image, replacing `imageId` if given or adding a new
+     * image record otherwise. Returns null if the article or image does not exist.
+     */
+    async uploadImage(
+        articleId: string,
+        file: Buffer,
+        options: { imageId?: string; prompt?: string; alt?: string },
+        user: AuthenticatedUser,
+    ): Promise<ImageReplacement | null> {
+        const article = await this.supabaseService.getArticle(articleId);
+        if (!article) return null;
+        this.assertCanModify(article, user);
+
+        let png: Buffer;
+        try {
+            png = await sharp(file).rotate().png().toBuffer();
+        } catch {
+            throw new HttpException('File is not a supported image', HttpStatus.BAD_REQUEST);
+        }
+
+        let image: ArticleImage | null;
+        if (options.imageId) {
+            image = await this.supabaseService.getArticleImage(articleId, options.imageId);
+            if (!image) return null;
+        } else {
+            const existing = await this.supabaseService.getArticleImages(articleId);
+            const position = existing.reduce((max, current) => Math.max(max, current.position), 0) + 1;
+            image = await this.supabaseService.createArticleImage(
+                articleId,
+                options.prompt ?? options.alt ?? 'Uploaded image',
+                position,
+            );
+        }
+
+        return this.replaceImage(article, image, png, options.prompt ?? image.prompt, options.alt, user);
+    }
+
+    /**
+     * Upload new image data for a record, then point the article's markdown
+     * link at it with fresh alt text. Files get a new name each time so older
+     * revisions keep their images.
+     */
+    private async replaceImage(
+        article: Article,
+        image: ArticleImage,
+        png: Buffer,
+        prompt: string,
+        alt: string | undefined,
+        user: AuthenticatedUser,
+    ): Promise<ImageReplacement> {
+        const stored = await this.imagesService.upload(
+            article.id,
+            png,
+            `image-${image.position}-${Date.now().toString(36)}`,
+        );
+        await this.supabaseService.updateArticleImage(image.id, { ...stored, prompt });
+
+        const altText = alt ?? await runWithUsageContext(
+            { articleId: article.id },
+            () => this.geminiService.generateAltTags(prompt, article.topic ?? article.title, article.locale),
+        );
+
+        let updatedArticle = article;
+        let contentUpdated = false;
+        if (image.storage_url && article.content_markdown) {
+            const { markdown, replaced } = replaceImageLink(article.content_markdown, image.storage_url, stored.storage_url, altText);
+            if (replaced) {
+                updatedArticle = await this.supabaseService.updateArticle(article.id, {
+                    content_markdown: markdown,
+                }, `user:${user.id}`);
+                contentUpdated = true;
+            }
+        }
+
+        return {
+            article: updatedArticle,
+            image: { ...image, ...stored, prompt },
+            alt: altText,
+            contentUpdated,
+        };
+    }
+
+    // ============ REVISIONS ============
+
+    /**
+     * List an article's content revisions, newest first
+     */
+    async getRevisions(articleId: string) {
+        return this.supabaseService.getArticleRevisions(articleId);
+    }
+
+    /**
+     * Get a single revision including its content
+     */
+    async getRevision(articleId: string, revisionId: string): Promise<ArticleRevision | null> {
+        return this.supabaseService.getArticleRevision(articleId, revisionId);
+    }
+
+    /**
+     * Line-level diff between two revisions. Either side may be 'current'
+     * to compare against the article as it is now.
+     * Returns null if the article or a revision does not exist.
+     */
+    async getRevisionDiff(articleId: string, from: string, to: string): Promise<{
+        from: { id: string; title: string | null; source: string; created_at: string | null };
+        to: { id: string; title: string | null; source: string; created_at: string | null };
+        diff: LineDiff;
+    } | null> {
+        const [fromVersion, toVersion] = await Promise.all([
+            this.resolveVersion(articleId, from),
+            this.resolveVersion(articleId, to),
+        ]);
+        if (!fromVersion || !toVersion) return null;
+
+        const { content_markdown: fromContent, ...fromMeta } = fromVersion;
+        const { content_markdown: toContent, ...toMeta } = toVersion;
+
+        return {
+            from: fromMeta,
+            to: toMeta,
+            diff: diffLines(fromContent, toContent),
+        };
+    }
+
+    /**
+     * Restore an article's title and content from a revision.
+     * The restore itself is saved as a new revision, so it can be undone.
+     */
+    async restoreRevision(articleId: string, revisionId: string, user: AuthenticatedUser): Promise<Article | null> {
+        const [article, revision] = await Promise.all([
+            this.supabaseService.getArticle(articleId),
+            this.supabaseService.getArticleRevision(articleId, revisionId),
+        ]);
+        if (!article || !revision) return null;
+        this.assertCanModify(article, user);
+
+        return this.supabaseService.updateArticle(articleId, {
+            title: revision.title ?? undefined,
+            content_markdown: revision.content_markdown,
+        } as Partial<Article>, `restore:${revision.id}`);
+    }
+
+    private async resolveVersion(articleId: string, revisionId: string) {
+        if (revisionId === 'current') {
+            const article = await this.supabaseService.getArticle(articleId);
+            if (!article) return null;
+            return {
+                id: 'current',
+                title: article.title,
+                source: 'current',
+                created_at: null,
+                content_markdown: article.content_markdown || '',
+            };
+        }
+
+        const revision = await this.supabaseService.getArticleRevision(articleId, revisionId);
+        if (!revision) return null;
+        return {
+            id: revision.id,
+            title: revision.title,
+            source: revision.source,
+            created_at: revision.created_at,
+            content_markdown: revision.content_markdown || '',
+        };
     }
 
     /**
@@ -131,11 +533,14 @@ export class ArticlesService {
     /**
      * Get category by slug with its articles
      */
-    async getCategoryWithArticles(slug: string) {
+    async getCategoryWithArticles(slug: string, query: ArticleListQuery) {
         const category = await this.supabaseService.getCategoryBySlug(slug);
         if (!category) return null;
 
-        const articles = await this.supabaseService.getArticlesByCategory(category.id);
+        const articles = await this.listArticles(
+            { ...query, category: undefined },
+            { status: 'published', categoryId: category.id, defaultSort: 'published_at' },
+        );
         return { category, articles };
     }
 
@@ -167,7 +572,7 @@ export class ArticlesService {
     /**
      * Update profile
      */
-    async updateProfile(id: string, updates: any) {
+    async updateProfile(id: string, updates: Partial<Pick<Profile, 'full_name' | 'role' | 'avatar_url' | 'bio'>>) {
         return this.supabaseService.updateProfile(id, updates);
     }
 
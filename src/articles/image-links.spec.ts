@@ -0,0 +1,23 @@
+import { replaceImageLink } from './image-links';
+
+describe('replaceImageLink', () => {
+    const oldUrl = 'https://cdn.example.com/articles/a/image-1.png';
+
+    it('replaces every link to the old image, keeping titles', () => {
+        const markdown = `Intro\n\n![old alt](${oldUrl})\n\nText ![again](<${oldUrl}> "Caption")`;
+
+        const result = replaceImageLink(markdown, oldUrl, 'https://cdn.example.com/new.png', 'A [new] diagram\nof pods');
+
+        expect(result.replaced).toBe(true);
+        expect(result.markdown).toBe(
+            'Intro\n\n![A new diagram of pods](https://cdn.example.com/new.png)\n\n'
+            + 'Text ![A new diagram of pods](https://cdn.example.com/new.png "Caption")',
+        );
+    });
+
+    it('leaves other images alone', () => {
+        const markdown = '![x](https://cdn.example.com/articles/a/image-1.png.bak)';
+
+        expect(replaceImageLink(markdown, oldUrl, 'new.png', 'alt')).toEqual({ markdown, replaced: false });
+    });
+});
@@ -0,0 +1,29 @@
+/**
+ * Alt text safe to put inside `![...]`: no brackets or line breaks
+ */
+export function toMarkdownAlt(alt: string): string {
+    return alt.replace(/[[\]\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Point every markdown image that uses `oldUrl` at `newUrl` with the given alt text.
+ * Returns the new markdown and whether anything was replaced.
+ */
+export function replaceImageLink(
+    markdown: string,
+    oldUrl: string,
+    newUrl: string,
+    alt: string,
+): { markdown: string; replaced: boolean } {
+    const escapedUrl = oldUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // ![alt](url) or ![alt](url "title"), possibly with the URL in angle brackets
+    const pattern = new RegExp(`!\\[[^\\]]*\\]\\(\\s*<?${escapedUrl}>?(\\s+"[^"]*")?\\s*\\)`, 'g');
+
+    let replaced = false;
+    const updated = markdown.replace(pattern, (_match, title: string | undefined) => {
+        replaced = true;
+        return `![${toMarkdownAlt(alt)}](${newUrl}${title ?? ''})`;
+    });
+
+    return { markdown: updated, replaced };
+}
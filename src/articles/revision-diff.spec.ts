@@ -0,0 +1,31 @@
+import { diffLines } from './revision-diff';
+
+describe('diffLines', () => {
+    it('reports identical texts as unchanged', () => {
+        const diff = diffLines('a\nb\nc', 'a\nb\nc');
+
+        expect(diff.added).toBe(0);
+        expect(diff.removed).toBe(0);
+        expect(diff.lines.every(line => line.type === 'equal')).toBe(true);
+    });
+
+    it('marks replaced lines as removed then added with line numbers', () => {
+        const diff = diffLines('# Title\nold line\nfooter', '# Title\nnew line\nfooter');
+
+        expect(diff.lines).toEqual([
+            { type: 'equal', content: '# Title', oldLine: 1, newLine: 1 },
+            { type: 'removed', content: 'old line', oldLine: 2 },
+            { type: 'added', content: 'new line', newLine: 2 },
+            { type: 'equal', content: 'footer', oldLine: 3, newLine: 3 },
+        ]);
+    });
+
+    it('keeps the longest common subsequence intact', () => {
+        const diff = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+        expect(diff.removed).toBe(1);
+        expect(diff.added).toBe(1);
+        expect(diff.lines.filter(line => line.type === 'removed').map(line => line.content)).toEqual(['b']);
+        expect(diff.lines.filter(line => line.type === 'added').map(line => line.content)).toEqual(['e']);
+    });
+});
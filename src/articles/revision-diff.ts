@@ -0,0 +1,86 @@
+export interface DiffLine {
+    type: 'equal' | 'added' | 'removed';
+    content: string;
+    /** 1-based line number in the old text (absent for added lines) */
+    oldLine?: number;
+    /** 1-based line number in the new text (absent for removed lines) */
+    newLine?: number;
+}
+
+export interface LineDiff {
+    lines: DiffLine[];
+    added: number;
+    removed: number;
+}
+
+/**
+ * Line-level diff between two texts based on the longest common subsequence.
+ * Common leading and trailing lines are stripped first so the quadratic
+ * table only covers the region that actually changed.
+ */
+export function diffLines(oldText: string, newText: string): LineDiff {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+    // lcs[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lcs: Uint32Array[] = Array.from({ length: oldMiddle.length + 1 }, () => new Uint32Array(newMiddle.length + 1));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+            lcs[i][j] = oldMiddle[i] === newMiddle[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    let added = 0;
+    let removed = 0;
+
+    for (let k = 0; k < prefix; k++) {
+        lines.push({ type: 'equal', content: oldLines[k], oldLine: oldLine++, newLine: newLine++ });
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+        if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+            lines.push({ type: 'equal', content: oldMiddle[i], oldLine: oldLine++, newLine: newLine++ });
+            i++;
+            j++;
+        } else if (i < oldMiddle.length && (j === newMiddle.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            // On ties, removals come before additions
+            lines.push({ type: 'removed', content: oldMiddle[i], oldLine: oldLine++ });
+            removed++;
+            i++;
+        } else {
+            lines.push({ type: 'added', content: newMiddle[j], newLine: newLine++ });
+            added++;
+            j++;
+        }
+    }
+
+    for (let k = oldLines.length - suffix; k < oldLines.length; k++) {
+        lines.push({ type: 'equal', content: oldLines[k], oldLine: oldLine++, newLine: newLine++ });
+    }
+
+    return { lines, added, removed };
+}
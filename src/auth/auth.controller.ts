@@ -0,0 +1,23 @@
+import { Controller, Get } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CurrentUser, Roles } from './auth.decorators';
+import type { AuthenticatedUser } from './roles';
+
+@Controller('auth')
+export class AuthController {
+    constructor(private supabaseService: SupabaseService) { }
+
+    /**
+     * GET /api/auth/me
+     * The signed-in user with their role and profile
+     */
+    @Get('me')
+    @Roles()
+    async getMe(@CurrentUser() user: AuthenticatedUser) {
+        const profile = await this.supabaseService.getProfile(user.id);
+        return {
+            success: true,
+            data: { ...user, profile },
+        };
+    }
+}
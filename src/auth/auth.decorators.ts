@@ -0,0 +1,24 @@
+import { applyDecorators, createParamDecorator, ExecutionContext, SetMetadata, UseGuards } from '@nestjs/common';
+import { SupabaseAuthGuard } from './supabase-auth.guard';
+import { RolesGuard, ROLES_KEY } from './roles.guard';
+import { AuthenticatedUser, UserRole } from './roles';
+
+/**
+ * Require a valid Supabase session and one of the given roles.
+ * With no roles, any authenticated user is allowed.
+ */
+export function Roles(...roles: UserRole[]) {
+    return applyDecorators(
+        SetMetadata(ROLES_KEY, roles),
+        UseGuards(SupabaseAuthGuard, RolesGuard),
+    );
+}
+
+/**
+ * The user attached by SupabaseAuthGuard
+ */
+export const CurrentUser = createParamDecorator(
+    (_data: unknown, context: ExecutionContext): AuthenticatedUser | undefined => {
+        return context.switchToHttp().getRequest<{ user?: AuthenticatedUser }>().user;
+    },
+);
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SupabaseAuthGuard } from './supabase-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { CronSecretGuard } from './cron-secret.guard';
+import { AuthController } from './auth.controller';
+
+@Module({
+    imports: [SupabaseModule],
+    controllers: [AuthController],
+    providers: [SupabaseAuthGuard, RolesGuard, CronSecretGuard],
+    exports: [SupabaseAuthGuard, RolesGuard, CronSecretGuard, SupabaseModule],
+})
+export class AuthModule { }
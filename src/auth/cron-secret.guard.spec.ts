@@ -0,0 +1,28 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronSecretGuard } from './cron-secret.guard';
+
+describe('CronSecretGuard', () => {
+    const createGuard = (secret?: string) =>
+        new CronSecretGuard({ get: () => secret } as unknown as ConfigService);
+
+    const contextWith = (authorization?: string) => ({
+        switchToHttp: () => ({
+            getRequest: () => ({ headers: { authorization } }),
+        }),
+    }) as unknown as ExecutionContext;
+
+    it('accepts the configured secret', () => {
+        expect(createGuard('s3cret').canActivate(contextWith('Bearer s3cret'))).toBe(true);
+    });
+
+    it('rejects a missing or wrong secret', () => {
+        const guard = createGuard('s3cret');
+        expect(() => guard.canActivate(contextWith())).toThrow(UnauthorizedException);
+        expect(() => guard.canActivate(contextWith('Bearer wrong'))).toThrow(UnauthorizedException);
+    });
+
+    it('rejects every request when no secret is configured', () => {
+        expect(() => createGuard(undefined).canActivate(contextWith('Bearer '))).toThrow(UnauthorizedException);
+    });
+});
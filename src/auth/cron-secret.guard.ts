@@ -0,0 +1,31 @@
+import { CanActivate, ExecutionContext, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Accepts only requests carrying `Authorization: Bearer <CRON_SECRET>`.
+ * Fails closed: if CRON_SECRET is not configured every request is rejected.
+ */
+@Injectable()
+export class CronSecretGuard implements CanActivate {
+    private readonly logger = new Logger(CronSecretGuard.name);
+
+    constructor(private configService: ConfigService) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const secret = this.configService.get<string>('CRON_SECRET');
+        if (!secret) {
+            this.logger.error('CRON_SECRET is not configured, rejecting cron request');
+            throw new UnauthorizedException('Cron endpoint is not configured');
+        }
+
+        const request = context.switchToHttp().getRequest<{ headers: Record<string, string | undefined> }>();
+        const provided = Buffer.from(request.headers.authorization ?? '');
+        const expected = Buffer.from(`Bearer ${secret}`);
+
+        if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+            throw new UnauthorizedException('Invalid cron secret');
+        }
+        return true;
+    }
+}
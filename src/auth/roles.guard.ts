@@ -0,0 +1,28 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedUser, UserRole } from './roles';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Allows the request if the authenticated user has one of the roles set
+ * with @Roles(). Must run after SupabaseAuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+    constructor(private reflector: Reflector) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!roles || roles.length === 0) return true;
+
+        const { user } = context.switchToHttp().getRequest<{ user?: AuthenticatedUser }>();
+        if (!user || !roles.includes(user.role)) {
+            throw new ForbiddenException(`Requires one of the roles: ${roles.join(', ')}`);
+        }
+        return true;
+    }
+}
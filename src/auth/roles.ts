@@ -0,0 +1,19 @@
+export const USER_ROLES = ['admin', 'editor', 'author', 'reader'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Roles allowed to work on articles in the admin dashboard
+ */
+export const STAFF_ROLES: UserRole[] = ['admin', 'editor', 'author'];
+
+/**
+ * Roles allowed to act on every article, not only their own
+ */
+export const EDITORIAL_ROLES: UserRole[] = ['admin', 'editor'];
+
+export interface AuthenticatedUser {
+    id: string;
+    email: string | null;
+    role: UserRole;
+}
@@ -0,0 +1,45 @@
+import { CanActivate, ExecutionContext, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuthenticatedUser } from './roles';
+
+/**
+ * Verifies the Supabase access token in the Authorization header and
+ * attaches the user, with the role from their profile, to the request.
+ * Users without a profile are treated as readers.
+ */
+@Injectable()
+export class SupabaseAuthGuard implements CanActivate {
+    private readonly logger = new Logger(SupabaseAuthGuard.name);
+
+    constructor(private supabaseService: SupabaseService) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const request = context.switchToHttp().getRequest<{ headers: Record<string, string | undefined>; user?: AuthenticatedUser }>();
+        const token = this.extractToken(request.headers.authorization);
+        if (!token) {
+            throw new UnauthorizedException('Missing bearer token');
+        }
+
+        const user = await this.supabaseService.getUserFromToken(token);
+        if (!user) {
+            throw new UnauthorizedException('Invalid or expired token');
+        }
+
+        let role: AuthenticatedUser['role'] = 'reader';
+        try {
+            const profile = await this.supabaseService.getProfile(user.id);
+            role = profile?.role ?? 'reader';
+        } catch (error) {
+            this.logger.error(`Failed to load role for user ${user.id}`, error);
+        }
+
+        request.user = { id: user.id, email: user.email, role };
+        return true;
+    }
+
+    private extractToken(header?: string): string | null {
+        if (!header) return null;
+        const [scheme, token] = header.split(' ');
+        return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+    }
+}
@@ -0,0 +1,60 @@
+import { Feed, toAtom, toJsonFeed, toRss } from './feed-formats';
+
+describe('feed formats', () => {
+    const feed: Feed = {
+        title: 'Daily Dev',
+        description: 'Tips & tricks',
+        siteUrl: 'https://example.com',
+        feedUrls: {
+            rss: 'https://example.com/api/feeds/rss.xml',
+            atom: 'https://example.com/api/feeds/atom.xml',
+            json: 'https://example.com/api/feeds/feed.json',
+        },
+        updated: new Date('2026-01-02T10:00:00Z'),
+        items: [
+            {
+                id: '6f1c2d4e-0000-4000-8000-000000000001',
+                title: 'Generics <in> TypeScript',
+                url: 'https://example.com/blog/generics',
+                summary: 'Learn generics',
+                contentHtml: '<p>Body with ]]> inside</p>',
+                imageUrl: 'https://cdn.example.com/thumb.webp',
+                published: new Date('2026-01-01T09:00:00Z'),
+                updated: new Date('2026-01-02T10:00:00Z'),
+                authorName: 'Alice',
+                categories: ['Web'],
+            },
+        ],
+    };
+
+    it('renders RSS with escaped text, full content and an image enclosure', () => {
+        const rss = toRss(feed);
+
+        expect(rss).toContain('<title>Generics &lt;in&gt; TypeScript</title>');
+        expect(rss).toContain('<description>Tips &amp; tricks</description>');
+        expect(rss).toContain('<content:encoded><![CDATA[<p>Body with ]]]]><![CDATA[> inside</p>]]></content:encoded>');
+        expect(rss).toContain('<enclosure url="https://cdn.example.com/thumb.webp" length="0" type="image/webp"/>');
+        expect(rss).toContain('<pubDate>Thu, 01 Jan 2026 09:00:00 GMT</pubDate>');
+    });
+
+    it('renders Atom with published and updated dates', () => {
+        const atom = toAtom(feed);
+
+        expect(atom).toContain('<published>2026-01-01T09:00:00.000Z</published>');
+        expect(atom).toContain('<updated>2026-01-02T10:00:00.000Z</updated>');
+        expect(atom).toContain('<content type="html">&lt;p&gt;Body with ]]&gt; inside&lt;/p&gt;</content>');
+    });
+
+    it('renders JSON Feed 1.1', () => {
+        const json = JSON.parse(toJsonFeed(feed)) as { version: string; items: Record<string, unknown>[] };
+
+        expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+        expect(json.items[0]).toMatchObject({
+            content_html: '<p>Body with ]]> inside</p>',
+            image: 'https://cdn.example.com/thumb.webp',
+            date_published: '2026-01-01T09:00:00.000Z',
+            authors: [{ name: 'Alice' }],
+            tags: ['Web'],
+        });
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Serializers for RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ * The service assembles a Feed once; the formats only differ in markup.
+ */
+
+import { escapeXml } from '../site/xml';
+
+export interface FeedItem {
+    id: string;
+    title: string;
+    url: string;
+    summary: string | null;
+    contentHtml: string;
+    imageUrl: string | null;
+    published: Date;
+    updated: Date;
+    authorName: string | null;
+    categories: string[];
+}
+
+export interface Feed {
+    title: string;
+    description: string;
+    siteUrl: string;
+    feedUrls: { rss: string; atom: string; json: string };
+    updated: Date;
+    items: FeedItem[];
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * Wrap HTML in CDATA, splitting any `]]>` that would end the section early
+ */
+function cdata(html: string): string {
+    return `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+export function imageMimeType(url: string): string {
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'jpg':
+        case 'jpeg':
+            return 'image/jpeg';
+        case 'webp':
+            return 'image/webp';
+        case 'avif':
+            return 'image/avif';
+        case 'gif':
+            return 'image/gif';
+        default:
+            return 'image/png';
+    }
+}
+
+export function toRss(feed: Feed): string {
+    const items = feed.items.map(item => [
+        '    <item>',
+        `      <title>${escapeXml(item.title)}</title>`,
+        `      <link>${escapeXml(item.url)}</link>`,
+        `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+        `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+        item.authorName ? `      <dc:creator>${escapeXml(item.authorName)}</dc:creator>` : null,
+        ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+        item.summary ? `      <description>${escapeXml(item.summary)}</description>` : null,
+        `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+        item.imageUrl
+            ? `      <enclosure url="${escapeXml(item.imageUrl)}" length="0" type="${imageMimeType(item.imageUrl)}"/>`
+            : null,
+        '    </item>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+        '  <channel>',
+        `    <title>${escapeXml(feed.title)}</title>`,
+        `    <link>${escapeXml(feed.siteUrl)}</link>`,
+        `    <description>${escapeXml(feed.description)}</description>`,
+        `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>`,
+        `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+        ...items,
+        '  </channel>',
+        '</rss>',
+        '',
+    ].join('\n');
+}
+
+export function toAtom(feed: Feed): string {
+    const entries = feed.items.map(item => [
+        '  <entry>',
+        `    <title>${escapeXml(item.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+        `    <id>urn:uuid:${escapeXml(item.id)}</id>`,
+        `    <published>${item.published.toISOString()}</published>`,
+        `    <updated>${item.updated.toISOString()}</updated>`,
+        item.authorName ? `    <author><name>${escapeXml(item.authorName)}</name></author>` : null,
+        ...item.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+        item.summary ? `    <summary>${escapeXml(item.summary)}</summary>` : null,
+        `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+        item.imageUrl
+            ? `    <link rel="enclosure" type="${imageMimeType(item.imageUrl)}" href="${escapeXml(item.imageUrl)}"/>`
+            : null,
+        '  </entry>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <title>${escapeXml(feed.title)}</title>`,
+        `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}"/>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>`,
+        `  <id>${escapeXml(feed.feedUrls.atom)}</id>`,
+        `  <updated>${feed.updated.toISOString()}</updated>`,
+        ...entries,
+        '</feed>',
+        '',
+    ].join('\n');
+}
+
+export function toJsonFeed(feed: Feed): string {
+    return JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: feed.title,
+        description: feed.description,
+        home_page_url: feed.siteUrl,
+        feed_url: feed.feedUrls.json,
+        items: feed.items.map(item => ({
+            id: item.id,
+            url: item.url,
+            title: item.title,
+            summary: item.summary ?? undefined,
+            content_html: item.contentHtml,
+            image: item.imageUrl ?? undefined,
+            date_published: item.published.toISOString(),
+            date_modified: item.updated.toISOString(),
+            authors: item.authorName ? [{ name: item.authorName }] : undefined,
+            tags: item.categories.length > 0 ? item.categories : undefined,
+            attachments: item.imageUrl ? [{ url: item.imageUrl, mime_type: imageMimeType(item.imageUrl) }] : undefined,
+        })),
+    }, null, 2);
+}
@@ -0,0 +1,76 @@
+import {
+    Controller,
+    Get,
+    Param,
+    ParseUUIDPipe,
+    Req,
+    Res,
+    HttpException,
+    HttpStatus,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { FeedsService } from './feeds.service';
+import { Feed, FEED_CONTENT_TYPES, FeedFormat, toAtom, toJsonFeed, toRss } from './feed-formats';
+import { sendCached } from '../site/http-cache';
+
+const FEED_FILES: Record<string, FeedFormat> = {
+    'rss.xml': 'rss',
+    'atom.xml': 'atom',
+    'feed.json': 'json',
+};
+
+@Controller('feeds')
+export class FeedsController {
+    constructor(private readonly feedsService: FeedsService) { }
+
+    @Get('category/:slug/:file')
+    async getCategoryFeed(
+        @Param('slug') slug: string,
+        @Param('file') file: string,
+        @Req() req: Request,
+        @Res() res: Response,
+    ) {
+        const format = this.parseFormat(file);
+        const feed = await this.feedsService.getCategoryFeed(slug);
+        if (!feed) {
+            throw new HttpException('Category not found', HttpStatus.NOT_FOUND);
+        }
+        this.send(req, res, feed, format);
+    }
+
+    @Get('author/:id/:file')
+    async getAuthorFeed(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Param('file') file: string,
+        @Req() req: Request,
+        @Res() res: Response,
+    ) {
+        const format = this.parseFormat(file);
+        const feed = await this.feedsService.getAuthorFeed(id);
+        if (!feed) {
+            throw new HttpException('Author not found', HttpStatus.NOT_FOUND);
+        }
+        this.send(req, res, feed, format);
+    }
+
+    @Get(':file')
+    async getSiteFeed(@Param('file') file: string, @Req() req: Request, @Res() res: Response) {
+        const format = this.parseFormat(file);
+        const feed = await this.feedsService.getSiteFeed();
+        this.send(req, res, feed, format);
+    }
+
+    private parseFormat(file: string): FeedFormat {
+        const format = FEED_FILES[file];
+        if (!format) {
+            throw new HttpException('Feed not found', HttpStatus.NOT_FOUND);
+        }
+        return format;
+    }
+
+    private send(req: Request, res: Response, feed: Feed, format: FeedFormat) {
+        const body = format === 'rss' ? toRss(feed) : format === 'atom' ? toAtom(feed) : toJsonFeed(feed);
+        const lastModified = feed.items.length > 0 ? feed.updated : null;
+        sendCached(req, res, body, FEED_CONTENT_TYPES[format], lastModified);
+    }
+}
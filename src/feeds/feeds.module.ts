@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SiteModule } from '../site/site.module';
+import { RenderingModule } from '../rendering/rendering.module';
+
+@Module({
+    imports: [SupabaseModule, SiteModule, RenderingModule],
+    controllers: [FeedsController],
+    providers: [FeedsService],
+})
+export class FeedsModule { }
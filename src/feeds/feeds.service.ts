@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { Article } from '../supabase/supabase.service';
+import { SiteService } from '../site/site.service';
+import { RenderingService } from '../rendering/rendering.service';
+import { Feed, FeedItem } from './feed-formats';
+
+const FEED_SIZE = 50;
+
+/**
+ * Builds syndication feeds of the most recently published articles,
+ * site-wide or scoped to one category or author.
+ */
+@Injectable()
+export class FeedsService {
+    constructor(
+        private supabaseService: SupabaseService,
+        private siteService: SiteService,
+        private renderingService: RenderingService,
+    ) { }
+
+    async getSiteFeed(): Promise<Feed> {
+        return this.buildFeed({
+            title: this.siteService.name,
+            description: this.siteService.description,
+            siteUrl: this.siteService.url,
+            path: '/feeds',
+        });
+    }
+
+    /**
+     * Returns null when the category does not exist
+     */
+    async getCategoryFeed(slug: string): Promise<Feed | null> {
+        const category = await this.supabaseService.getCategoryBySlug(slug);
+        if (!category) return null;
+
+        return this.buildFeed({
+            title: `${this.siteService.name} – ${category.name}`,
+            description: category.description ?? this.siteService.description,
+            siteUrl: this.siteService.categoryUrl(category.slug),
+            path: `/feeds/category/${encodeURIComponent(category.slug)}`,
+            categoryId: category.id,
+        });
+    }
+
+    /**
+     * Returns null when the author does not exist
+     */
+    async getAuthorFeed(authorId: string): Promise<Feed | null> {
+        const profile = await this.supabaseService.getProfile(authorId);
+        if (!profile) return null;
+
+        const name = profile.full_name ?? 'Unknown author';
+        return this.buildFeed({
+            title: `${this.siteService.name} – ${name}`,
+            description: profile.bio ?? this.siteService.description,
+            siteUrl: this.siteService.url,
+            path: `/feeds/author/${encodeURIComponent(profile.id)}`,
+            authorId: profile.id,
+        });
+    }
+
+    private async buildFeed(options: {
+        title: string;
+        description: string;
+        siteUrl: string;
+        path: string;
+        categoryId?: string;
+        authorId?: string;
+    }): Promise<Feed> {
+        const [{ articles }, categories] = await Promise.all([
+            this.supabaseService.listArticles({
+                status: 'published',
+                categoryId: options.categoryId,
+                authorId: options.authorId,
+                sort: 'published_at',
+                ascending: false,
+                limit: FEED_SIZE,
+                full: true,
+            }),
+            this.supabaseService.getAllCategories(),
+        ]);
+
+        const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+        const authorNames = await this.getAuthorNames(articles);
+
+        const items: FeedItem[] = articles.map(article => ({
+            id: article.id,
+            title: article.title,
+            url: this.siteService.articleUrl(article.slug),
+            summary: article.meta_description,
+            contentHtml: this.renderingService.render(article).html,
+            imageUrl: article.thumbnail_url,
+            published: new Date(article.published_at ?? article.created_at),
+            updated: new Date(article.updated_at),
+            authorName: article.author_id ? authorNames.get(article.author_id) ?? null : null,
+            categories: article.category_id && categoryNames.has(article.category_id)
+                ? [categoryNames.get(article.category_id) as string]
+                : [],
+        }));
+
+        // Derived from the content rather than the clock so unchanged feeds keep their ETag
+        const updated = items.reduce(
+            (latest, item) => (item.updated > latest ? item.updated : latest),
+            new Date(0),
+        );
+
+        return {
+            title: options.title,
+            description: options.description,
+            siteUrl: options.siteUrl,
+            feedUrls: {
+                rss: this.siteService.apiPath(`${options.path}/rss.xml`),
+                atom: this.siteService.apiPath(`${options.path}/atom.xml`),
+                json: this.siteService.apiPath(`${options.path}/feed.json`),
+            },
+            updated,
+            items,
+        };
+    }
+
+    private async getAuthorNames(articles: Article[]): Promise<Map<string, string>> {
+        const ids = Array.from(new Set(articles.map(article => article.author_id).filter((id): id is string => !!id)));
+        const profiles = await Promise.all(ids.map(id => this.supabaseService.getProfile(id)));
+
+        const names = new Map<string, string>();
+        for (const profile of profiles) {
+            if (profile?.full_name) names.set(profile.id, profile.full_name);
+        }
+        return names;
+    }
+}
@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { GeminiService } from './gemini.service';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { LlmRequestPolicy } from './llm-request-policy';
+import { UsageModule } from '../usage/usage.module';
+import { PromptsModule } from '../prompts/prompts.module';
 
 @Module({
-    imports: [ConfigModule],
-    providers: [GeminiService],
+    imports: [ConfigModule, UsageModule, PromptsModule],
+    providers: [GeminiService, LlmProviderRegistry, LlmRequestPolicy],
     exports: [GeminiService],
 })
 export class GeminiModule { }
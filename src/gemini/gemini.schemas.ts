@@ -0,0 +1,239 @@
+import { ClassConstructor, Type } from 'class-transformer';
+import {
+    ArrayMinSize,
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsInt,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Length,
+    Matches,
+    Min,
+    MinLength,
+    ValidateNested,
+} from 'class-validator';
+
+// Schemas for the JSON-producing stages. Model output is validated
+// against these before it reaches the pipeline.
+
+// ============ CATEGORY ============
+
+export class CategorySuggestionSchema {
+    @IsString()
+    @Length(1, 50)
+    categoryName: string;
+
+    @IsBoolean()
+    isNew: boolean;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+}
+
+// ============ SEO RESEARCH ============
+
+export class H2SectionSchema {
+    @IsString()
+    @MinLength(1)
+    h2: string;
+
+    @IsArray()
+    @IsString({ each: true })
+    h3s: string[];
+}
+
+export class SeoResearchSchema {
+    @IsArray()
+    @ArrayMinSize(3)
+    @IsString({ each: true })
+    keywords: string[];
+
+    @IsArray()
+    @ArrayMinSize(2)
+    @ValidateNested({ each: true })
+    @Type(() => H2SectionSchema)
+    h2Structure: H2SectionSchema[];
+
+    @IsString()
+    @Length(50, 200)
+    metaDescription: string;
+}
+
+// ============ INTERACTIVE COMPONENTS ============
+
+export const INTERACTIVE_COMPONENT_TYPES = ['roi_calculator', 'quiz', 'comparison_table', 'checklist'] as const;
+
+export type InteractiveComponentType = (typeof INTERACTIVE_COMPONENT_TYPES)[number];
+
+export class RoiCalculatorInputSchema {
+    @IsString()
+    name: string;
+
+    @IsString()
+    label: string;
+
+    @IsNumber()
+    default: number;
+}
+
+export class RoiCalculatorConfigSchema {
+    @IsString()
+    title: string;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => RoiCalculatorInputSchema)
+    inputs: RoiCalculatorInputSchema[];
+
+    @IsString()
+    formula: string;
+}
+
+export class QuizQuestionSchema {
+    @IsString()
+    question: string;
+
+    @IsArray()
+    @ArrayMinSize(2)
+    @IsString({ each: true })
+    options: string[];
+
+    @IsInt()
+    @Min(0)
+    correct: number;
+}
+
+export class QuizConfigSchema {
+    @IsString()
+    title: string;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => QuizQuestionSchema)
+    questions: QuizQuestionSchema[];
+}
+
+export class ComparisonTableConfigSchema {
+    @IsString()
+    title: string;
+
+    @IsArray()
+    @ArrayMinSize(2)
+    @IsString({ each: true })
+    headers: string[];
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @IsArray({ each: true })
+    rows: string[][];
+}
+
+export class ChecklistConfigSchema {
+    @IsString()
+    title: string;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @IsString({ each: true })
+    items: string[];
+}
+
+export class NoInteractiveComponentSchema {
+    @IsIn([null], { message: `type must be null or one of: ${INTERACTIVE_COMPONENT_TYPES.join(', ')}` })
+    type: null;
+}
+
+export class RoiCalculatorComponentSchema {
+    @IsIn(['roi_calculator'])
+    type: 'roi_calculator';
+
+    @ValidateNested()
+    @Type(() => RoiCalculatorConfigSchema)
+    config: RoiCalculatorConfigSchema;
+}
+
+export class QuizComponentSchema {
+    @IsIn(['quiz'])
+    type: 'quiz';
+
+    @ValidateNested()
+    @Type(() => QuizConfigSchema)
+    config: QuizConfigSchema;
+}
+
+export class ComparisonTableComponentSchema {
+    @IsIn(['comparison_table'])
+    type: 'comparison_table';
+
+    @ValidateNested()
+    @Type(() => ComparisonTableConfigSchema)
+    config: ComparisonTableConfigSchema;
+}
+
+export class ChecklistComponentSchema {
+    @IsIn(['checklist'])
+    type: 'checklist';
+
+    @ValidateNested()
+    @Type(() => ChecklistConfigSchema)
+    config: ChecklistConfigSchema;
+}
+
+export type InteractiveComponentSchema =
+    | NoInteractiveComponentSchema
+    | RoiCalculatorComponentSchema
+    | QuizComponentSchema
+    | ComparisonTableComponentSchema
+    | ChecklistComponentSchema;
+
+/**
+ * Pick the schema matching the component type the model chose.
+ * Unknown types fall through to the null schema so the error message
+ * lists the allowed values.
+ */
+export function interactiveComponentSchemaFor(raw: Record<string, unknown>): ClassConstructor<InteractiveComponentSchema> {
+    switch (raw.type) {
+        case 'roi_calculator':
+            return RoiCalculatorComponentSchema;
+        case 'quiz':
+            return QuizComponentSchema;
+        case 'comparison_table':
+            return ComparisonTableComponentSchema;
+        case 'checklist':
+            return ChecklistComponentSchema;
+        default:
+            return NoInteractiveComponentSchema;
+    }
+}
+
+// ============ TRANSLATION ============
+
+export class TranslatedMetadataSchema {
+    @IsString()
+    @Length(1, 500)
+    title: string;
+
+    /** Romanized, since article slugs are ASCII */
+    @IsString()
+    @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+    @Length(1, 100)
+    slug: string;
+
+    @IsOptional()
+    @IsString()
+    metaDescription?: string;
+
+    @IsArray()
+    @IsString({ each: true })
+    keywords: string[];
+
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => H2SectionSchema)
+    h2Structure: H2SectionSchema[];
+}
@@ -0,0 +1,79 @@
+import { GeminiService, StructuredOutputError } from './gemini.service';
+import { CategorySuggestionSchema, ChecklistComponentSchema, interactiveComponentSchemaFor } from './gemini.schemas';
+import { FakeLlmProvider } from './providers/fake.provider';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { LlmRequestPolicy } from './llm-request-policy';
+import { UsageService } from '../usage/usage.service';
+import { PromptsService } from '../prompts/prompts.service';
+
+describe('GeminiService.generateStructured', () => {
+    const createService = (responses: string[]) => {
+        const prompts: string[] = [];
+        const provider = new FakeLlmProvider(({ prompt }) => {
+            prompts.push(prompt);
+            return responses[Math.min(prompts.length, responses.length) - 1];
+        });
+        const service = new GeminiService(
+            { resolveText: () => ({ provider, model: 'fake-text' }) } as unknown as LlmProviderRegistry,
+            { execute: (_key: string, call: () => Promise<unknown>) => call() } as unknown as LlmRequestPolicy,
+            { record: jest.fn().mockResolvedValue(undefined) } as unknown as UsageService,
+            {} as PromptsService,
+        );
+        return { service, prompts };
+    };
+
+    it('feeds validation errors back into the prompt and returns the corrected output', async () => {
+        const { service, prompts } = createService([
+            '{"categoryName": "Weather"}',
+            '{"categoryName": "Weather", "isNew": false}',
+        ]);
+
+        const result = await service.generateStructured(
+            { schema: CategorySuggestionSchema },
+            'Pick a category',
+            'You are an editor',
+            'category',
+        );
+
+        expect(result).toBeInstanceOf(CategorySuggestionSchema);
+        expect(result).toMatchObject({ categoryName: 'Weather', isNew: false });
+        expect(prompts).toHaveLength(2);
+        expect(prompts[0]).toBe('Pick a category');
+        expect(prompts[1]).toContain('Your previous response was rejected');
+        expect(prompts[1]).toContain('- isNew must be a boolean value');
+    });
+
+    it('reports unparseable JSON as a rejection reason', async () => {
+        const { service, prompts } = createService([
+            'Sure! Here is the category.',
+            '```json\n{"categoryName": "Weather", "isNew": true}\n```',
+        ]);
+
+        await service.generateStructured({ schema: CategorySuggestionSchema }, 'Pick a category', '', 'category');
+
+        expect(prompts[1]).toContain('Response is not valid JSON');
+    });
+
+    it('picks the schema from the response with schemaFor', async () => {
+        const { service } = createService(['{"type": "checklist", "config": {"title": "Pack", "items": ["Umbrella"]}}']);
+
+        const result = await service.generateStructured(
+            { schemaFor: interactiveComponentSchemaFor },
+            'Suggest a component',
+            '',
+            'interactive',
+        );
+
+        expect(result).toBeInstanceOf(ChecklistComponentSchema);
+    });
+
+    it('stops after maxAttempts', async () => {
+        const { service, prompts } = createService(['{"categoryName": ""}']);
+
+        const attempt = service.generateStructured({ schema: CategorySuggestionSchema }, 'Pick a category', '', 'category', 2);
+
+        await expect(attempt).rejects.toBeInstanceOf(StructuredOutputError);
+        await expect(attempt).rejects.toMatchObject({ stage: 'category' });
+        expect(prompts).toHaveLength(2);
+    });
+});
@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { CircuitOpenError, LlmProviderError, LlmRequestPolicy } from './llm-request-policy';
+
+describe('LlmRequestPolicy', () => {
+    const createPolicy = (overrides: Record<string, string> = {}) => {
+        const config: Record<string, string> = {
+            LLM_MAX_RETRIES: '3',
+            LLM_RETRY_BASE_MS: '1',
+            LLM_RETRY_MAX_MS: '5',
+            LLM_BREAKER_THRESHOLD: '5',
+            LLM_BREAKER_COOLDOWN_MS: '60000',
+            ...overrides,
+        };
+        return new LlmRequestPolicy({ get: (key: string) => config[key] } as unknown as ConfigService);
+    };
+
+    it('retries transient failures until the call succeeds', async () => {
+        const policy = createPolicy();
+        const call = jest.fn()
+            .mockRejectedValueOnce(new LlmProviderError('unavailable', 503))
+            .mockRejectedValueOnce(new LlmProviderError('rate limited', 429))
+            .mockResolvedValue('ok');
+
+        await expect(policy.execute('test:text', call)).resolves.toBe('ok');
+        expect(call).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+        const policy = createPolicy();
+        const call = jest.fn().mockRejectedValue(new LlmProviderError('bad request', 400));
+
+        await expect(policy.execute('test:text', call)).rejects.toThrow('bad request');
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry errors it cannot classify', async () => {
+        const policy = createPolicy();
+        const call = jest.fn().mockRejectedValue(new SyntaxError('Unexpected token'));
+
+        await expect(policy.execute('test:text', call)).rejects.toThrow('Unexpected token');
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits at least the Retry-After delay', async () => {
+        const policy = createPolicy({ LLM_RETRY_MAX_MS: '100' });
+        const call = jest.fn()
+            .mockRejectedValueOnce(new LlmProviderError('rate limited', 429, 50))
+            .mockResolvedValue('ok');
+
+        const started = Date.now();
+        await policy.execute('test:text', call);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('fails fast when Retry-After is longer than LLM_RETRY_MAX_MS', async () => {
+        const policy = createPolicy({ LLM_RETRY_MAX_MS: '100' });
+        const call = jest.fn().mockRejectedValue(new LlmProviderError('rate limited', 429, 60_000));
+
+        await expect(policy.execute('test:text', call)).rejects.toThrow('rate limited');
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens the circuit after repeated failures and fails fast', async () => {
+        const policy = createPolicy({ LLM_MAX_RETRIES: '0', LLM_BREAKER_THRESHOLD: '2' });
+        const call = jest.fn().mockRejectedValue(new LlmProviderError('down', 503));
+
+        await expect(policy.execute('test:text', call)).rejects.toThrow('down');
+        await expect(policy.execute('test:text', call)).rejects.toThrow('down');
+        await expect(policy.execute('test:text', call)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(call).toHaveBeenCalledTimes(2);
+
+        // Other circuits are unaffected
+        await expect(policy.execute('other:text', () => Promise.resolve('ok'))).resolves.toBe('ok');
+    });
+
+    it('caps the number of concurrent calls', async () => {
+        const policy = createPolicy({ LLM_MAX_CONCURRENCY: '2' });
+        let inFlight = 0;
+        let peak = 0;
+
+        const call = async () => {
+            inFlight++;
+            peak = Math.max(peak, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+        };
+
+        await Promise.all(Array.from({ length: 6 }, () => policy.execute('test:text', call)));
+        expect(peak).toBe(2);
+    });
+});
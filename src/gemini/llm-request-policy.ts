@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Error raised by providers for failed HTTP calls, carrying what the
+ * retry policy needs to decide whether and when to try again.
+ */
+export class LlmProviderError extends Error {
+    constructor(
+        message: string,
+        readonly status?: number,
+        readonly retryAfterMs?: number,
+        readonly retryable = status === undefined || RETRYABLE_STATUSES.includes(status),
+    ) {
+        super(message);
+        this.name = 'LlmProviderError';
+    }
+
+    /**
+     * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+     */
+    static parseRetryAfter(header: string | null | undefined): number | undefined {
+        if (!header) return undefined;
+
+        const seconds = Number(header);
+        if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(header);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+        return undefined;
+    }
+}
+
+/**
+ * fetch() for provider calls. Network failures (DNS, refused or reset
+ * connections) come back as retryable LlmProviderErrors, since the policy
+ * doesn't retry errors it can't classify.
+ */
+export async function fetchFromProvider(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(url, init);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        // Only the host: Gemini URLs carry the API key
+        throw new LlmProviderError(`Request to ${new URL(url).host} failed: ${reason}`);
+    }
+}
+
+/**
+ * Thrown without calling the provider while its circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+    constructor(readonly key: string, readonly retryInMs: number) {
+        super(`Circuit breaker open for ${key}, retry in ${Math.ceil(retryInMs / 1000)}s`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openedAt: number | null;
+    halfOpenTrial: boolean;
+}
+
+/**
+ * Shared policy for outbound LLM calls: caps concurrent requests, retries
+ * transient failures with exponential backoff and full jitter (honouring
+ * Retry-After up to LLM_RETRY_MAX_MS, failing fast beyond it), and trips a per-provider circuit breaker after repeated failures.
+ *
+ * Config keys (all optional):
+ *   LLM_MAX_CONCURRENCY (4), LLM_MAX_RETRIES (4), LLM_RETRY_BASE_MS (1000),
+ *   LLM_RETRY_MAX_MS (30000), LLM_BREAKER_THRESHOLD (5), LLM_BREAKER_COOLDOWN_MS (60000)
+ */
+@Injectable()
+export class LlmRequestPolicy {
+    private readonly logger = new Logger(LlmRequestPolicy.name);
+    private readonly maxConcurrency: number;
+    private readonly maxRetries: number;
+    private readonly baseDelayMs: number;
+    private readonly maxDelayMs: number;
+    private readonly breakerThreshold: number;
+    private readonly breakerCooldownMs: number;
+
+    private active = 0;
+    private readonly waiting: (() => void)[] = [];
+    private readonly circuits = new Map<string, CircuitState>();
+
+    constructor(private configService: ConfigService) {
+        this.maxConcurrency = this.numberConfig('LLM_MAX_CONCURRENCY', 4, 1);
+        this.maxRetries = this.numberConfig('LLM_MAX_RETRIES', 4, 0);
+        this.baseDelayMs = this.numberConfig('LLM_RETRY_BASE_MS', 1000, 0);
+        this.maxDelayMs = this.numberConfig('LLM_RETRY_MAX_MS', 30000, 0);
+        this.breakerThreshold = this.numberConfig('LLM_BREAKER_THRESHOLD', 5, 1);
+        this.breakerCooldownMs = this.numberConfig('LLM_BREAKER_COOLDOWN_MS', 60000, 0);
+    }
+
+    /**
+     * Run a provider call under the policy. `key` identifies the circuit,
+     * typically the provider name plus the kind of call.
+     */
+    async execute<T>(key: string, call: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            this.checkCircuit(key);
+
+            try {
+                const result = await this.withConcurrencyLimit(call);
+                this.recordSuccess(key);
+                return result;
+            } catch (error) {
+                if (!this.isRetryable(error)) {
+                    // Client errors say nothing about provider health
+                    this.releaseHalfOpenTrial(key);
+                    throw error;
+                }
+
+                this.recordFailure(key);
+
+                if (attempt >= this.maxRetries) {
+                    throw error;
+                }
+
+                if (error instanceof LlmProviderError && (error.retryAfterMs ?? 0) > this.maxDelayMs) {
+                    // Waiting that long would outlast the request (Vercel functions get 60s)
+                    this.logger.warn(`${key} asked to retry after ${error.retryAfterMs}ms, above LLM_RETRY_MAX_MS; giving up`);
+                    throw error;
+                }
+
+                const delay = this.retryDelay(attempt, error);
+                this.logger.warn(`${key} call failed (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms: ${error}`);
+                await this.sleep(delay);
+            }
+        }
+    }
+
+    private isRetryable(error: unknown): boolean {
+        if (error instanceof CircuitOpenError) return false;
+        if (error instanceof LlmProviderError) return error.retryable;
+        // Unclassified errors are most likely deterministic (parsing, bugs);
+        // providers report network failures as LlmProviderError
+        return false;
+    }
+
+    private retryDelay(attempt: number, error: unknown): number {
+        const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        const jittered = Math.floor(Math.random() * ceiling);
+
+        // Retry-After is at most maxDelayMs here, see execute()
+        if (error instanceof LlmProviderError && error.retryAfterMs !== undefined) {
+            return Math.max(error.retryAfterMs, jittered);
+        }
+        return jittered;
+    }
+
+    // ============ CONCURRENCY ============
+
+    private async withConcurrencyLimit<T>(call: () => Promise<T>): Promise<T> {
+        if (this.active < this.maxConcurrency) {
+            this.active++;
+        } else {
+            // The releasing call hands its slot straight to us
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+
+        try {
+            return await call();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+
+    // ============ CIRCUIT BREAKER ============
+
+    private checkCircuit(key: string) {
+        const state = this.circuits.get(key);
+        if (!state || state.openedAt === null) return;
+
+        const elapsed = Date.now() - state.openedAt;
+        if (elapsed < this.breakerCooldownMs) {
+            throw new CircuitOpenError(key, this.breakerCooldownMs - elapsed);
+        }
+
+        // Cooldown over: let a single trial request through (half-open)
+        if (state.halfOpenTrial) {
+            throw new CircuitOpenError(key, 0);
+        }
+        state.halfOpenTrial = true;
+    }
+
+    private recordSuccess(key: string) {
+        const state = this.circuits.get(key);
+        if (state && (state.consecutiveFailures > 0 || state.openedAt !== null)) {
+            if (state.openedAt !== null) {
+                this.logger.log(`Circuit breaker closed for ${key}`);
+            }
+            this.circuits.delete(key);
+        }
+    }
+
+    private recordFailure(key: string) {
+        const state = this.circuits.get(key) ?? { consecutiveFailures: 0, openedAt: null, halfOpenTrial: false };
+        state.consecutiveFailures++;
+
+        if (state.halfOpenTrial || state.consecutiveFailures >= this.breakerThreshold) {
+            if (state.openedAt === null || state.halfOpenTrial) {
+                this.logger.error(`Circuit breaker opened for ${key} after ${state.consecutiveFailures} consecutive failures`);
+            }
+            state.openedAt = Date.now();
+            state.halfOpenTrial = false;
+        }
+
+        this.circuits.set(key, state);
+    }
+
+    private releaseHalfOpenTrial(key: string) {
+        const state = this.circuits.get(key);
+        if (state) state.halfOpenTrial = false;
+    }
+
+    // ============ HELPERS ============
+
+    private numberConfig(key: string, fallback: number, min: number): number {
+        const value = Number(this.configService.get<string>(key));
+        return Number.isFinite(value) && value >= min ? value : fallback;
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
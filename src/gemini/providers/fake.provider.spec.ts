@@ -0,0 +1,35 @@
+import { FakeLlmProvider } from './fake.provider';
+
+describe('FakeLlmProvider', () => {
+    const request = { model: 'fake-text', prompt: 'Write about monsoons', systemInstruction: 'You are a writer' };
+
+    it('answers the same request the same way', async () => {
+        const provider = new FakeLlmProvider();
+
+        const first = await provider.generateText(request);
+        const second = await provider.generateText(request);
+        const other = await provider.generateText({ ...request, systemInstruction: 'You are an editor' });
+
+        expect(first.text).toBe(second.text);
+        expect(first.text).toMatch(/^\[fake:fake-text:[0-9a-f]{8}\] Write about monsoons$/);
+        expect(other.text).not.toBe(first.text);
+    });
+
+    it('returns scripted responses with estimated token usage', async () => {
+        const provider = new FakeLlmProvider(({ prompt }) => `{"echo":"${prompt}"}`);
+
+        const response = await provider.generateText(request);
+
+        expect(response).toEqual({
+            text: '{"echo":"Write about monsoons"}',
+            model: 'fake-text',
+            usage: { promptTokens: 9, completionTokens: 8 },
+        });
+    });
+
+    it('returns a valid PNG for images', async () => {
+        const image = await new FakeLlmProvider().generateImage();
+
+        expect(image?.subarray(1, 4).toString('ascii')).toBe('PNG');
+    });
+});
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import {
+    ImageGenerationProvider,
+    TextGenerationProvider,
+    TextGenerationRequest,
+    TextGenerationResponse,
+} from './llm-provider.interface';
+
+// 1x1 transparent PNG
+const FAKE_IMAGE_BASE64 =
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Deterministic provider for tests and offline development.
+ * The same request always produces the same response; pass a responder
+ * to script specific outputs.
+ */
+export class FakeLlmProvider implements TextGenerationProvider, ImageGenerationProvider {
+    readonly name = 'fake' as const;
+
+    constructor(private readonly responder?: (request: TextGenerationRequest) => string) { }
+
+    generateText(request: TextGenerationRequest): Promise<TextGenerationResponse> {
+        const text = this.responder
+            ? this.responder(request)
+            : `[fake:${request.model}:${this.digest(request.systemInstruction ?? '', request.prompt)}] ${request.prompt.substring(0, 200)}`;
+
+        return Promise.resolve({
+            text,
+            model: request.model,
+            // Rough 4-characters-per-token estimate so usage accounting has numbers to work with
+            usage: {
+                promptTokens: Math.ceil(((request.systemInstruction ?? '').length + request.prompt.length) / 4),
+                completionTokens: Math.ceil(text.length / 4),
+            },
+        });
+    }
+
+    generateImage(): Promise<Buffer | null> {
+        return Promise.resolve(Buffer.from(FAKE_IMAGE_BASE64, 'base64'));
+    }
+
+    private digest(...parts: string[]): string {
+        return createHash('sha256').update(parts.join('\u0000')).digest('hex').substring(0, 8);
+    }
+}
@@ -0,0 +1,34 @@
+import { GoogleGenerativeAIError, GoogleGenerativeAIResponseError } from '@google/generative-ai';
+import { LlmProviderError } from '../llm-request-policy';
+import { GeminiProvider } from './gemini.provider';
+
+describe('GeminiProvider', () => {
+    const request = { model: 'gemini-test', prompt: 'Write about monsoons' };
+
+    const createProvider = (generateContent: () => Promise<unknown>) => {
+        const provider = new GeminiProvider('key');
+        Object.assign(provider, { genAI: { getGenerativeModel: () => ({ generateContent }) } });
+        return provider;
+    };
+
+    it('reports blocked responses as non-retryable', async () => {
+        const provider = createProvider(() => Promise.resolve({
+            response: {
+                text: () => {
+                    throw new GoogleGenerativeAIResponseError('Candidate was blocked due to SAFETY');
+                },
+            },
+        }));
+
+        const error = await provider.generateText(request).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(LlmProviderError);
+        expect(error).toMatchObject({ retryable: false });
+    });
+
+    it('reports failed fetches as retryable', async () => {
+        const provider = createProvider(() => Promise.reject(new GoogleGenerativeAIError('Error fetching from url: fetch failed')));
+
+        await expect(provider.generateText(request)).rejects.toMatchObject({ name: 'LlmProviderError', retryable: true });
+    });
+});
@@ -0,0 +1,131 @@
+import { Logger } from '@nestjs/common';
+import {
+    GoogleGenerativeAI,
+    GoogleGenerativeAIError,
+    GoogleGenerativeAIFetchError,
+    GoogleGenerativeAIRequestInputError,
+    GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { fetchFromProvider, LlmProviderError } from '../llm-request-policy';
+import {
+    ImageGenerationProvider,
+    ImageGenerationRequest,
+    TextGenerationProvider,
+    TextGenerationRequest,
+    TextGenerationResponse,
+} from './llm-provider.interface';
+
+/** The parts of a REST generateContent response that carry image data */
+interface GenerateContentResponse {
+    candidates?: { content?: { parts?: { inlineData?: { data?: string } }[] } }[];
+}
+
+/**
+ * Google Gemini provider. Text goes through the official SDK,
+ * images through the REST generateContent endpoint.
+ */
+export class GeminiProvider implements TextGenerationProvider, ImageGenerationProvider {
+    readonly name = 'gemini' as const;
+    private readonly logger = new Logger(GeminiProvider.name);
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(private readonly apiKey: string) {
+        this.genAI = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generateText(request: TextGenerationRequest): Promise<TextGenerationResponse> {
+        const model = this.genAI.getGenerativeModel({
+            model: request.model,
+            systemInstruction: request.systemInstruction,
+            generationConfig: request.responseFormat === 'json'
+                ? { responseMimeType: 'application/json' }
+                : undefined,
+        });
+
+        let result;
+        let text: string;
+        try {
+            result = await model.generateContent(request.prompt);
+            // Throws for blocked (e.g. SAFETY) responses
+            text = result.response.text();
+        } catch (error) {
+            throw this.toProviderError(error);
+        }
+
+        const usage = result.response.usageMetadata;
+        return {
+            text: text || '',
+            model: request.model,
+            usage: usage && {
+                promptTokens: usage.promptTokenCount,
+                completionTokens: usage.candidatesTokenCount,
+            },
+        };
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<Buffer | null> {
+        const url = `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${this.apiKey}`;
+
+        const response = await fetchFromProvider(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                contents: [{
+                    parts: [{ text: request.prompt }]
+                }],
+                generationConfig: {
+                    responseModalities: ['TEXT', 'IMAGE'],
+                }
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            this.logger.warn(`Image API error ${response.status}: ${errorText.substring(0, 300)}`);
+            throw new LlmProviderError(
+                `Image API error ${response.status}`,
+                response.status,
+                LlmProviderError.parseRetryAfter(response.headers.get('retry-after')),
+            );
+        }
+
+        const data = (await response.json()) as GenerateContentResponse;
+
+        // Extract the base64 image from the response candidates
+        for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+            if (part.inlineData?.data) {
+                return Buffer.from(part.inlineData.data, 'base64');
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Map SDK errors onto LlmProviderError, reading the RetryInfo delay
+     * Gemini attaches to 429 responses
+     */
+    private toProviderError(error: unknown): unknown {
+        if (error instanceof GoogleGenerativeAIFetchError) {
+            const retryInfo = error.errorDetails?.find(d => d['@type']?.endsWith('google.rpc.RetryInfo'));
+            const retryDelay = typeof retryInfo?.retryDelay === 'string'
+                ? LlmProviderError.parseRetryAfter(retryInfo.retryDelay.replace(/s$/, ''))
+                : undefined;
+            return new LlmProviderError(error.message, error.status, retryDelay);
+        }
+
+        // Blocked or malformed prompts fail the same way on every attempt
+        if (error instanceof GoogleGenerativeAIResponseError || error instanceof GoogleGenerativeAIRequestInputError) {
+            return new LlmProviderError(error.message, undefined, undefined, false);
+        }
+
+        // Anything else from the SDK is a failed or aborted fetch
+        if (error instanceof GoogleGenerativeAIError) {
+            return new LlmProviderError(error.message);
+        }
+
+        return error;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Pipeline stages that can be routed to their own provider and model.
+ * `default` is used for any call that does not name a stage.
+ */
+export type LlmStage =
+    | 'default'
+    | 'slug'
+    | 'category'
+    | 'seo'
+    | 'writing'
+    | 'humanizing'
+    | 'interactive'
+    | 'finalReview'
+    | 'altText'
+    | 'brainstorm'
+    | 'translation';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'fake';
+
+export type ResponseFormat = 'text' | 'json';
+
+export interface TextGenerationRequest {
+    model: string;
+    prompt: string;
+    systemInstruction?: string;
+    /**
+     * `json` asks the model for a bare JSON document (JSON response mode)
+     */
+    responseFormat?: ResponseFormat;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface TextGenerationResponse {
+    text: string;
+    model: string;
+    usage?: TokenUsage;
+}
+
+export interface ImageGenerationRequest {
+    model: string;
+    prompt: string;
+}
+
+export interface TextGenerationProvider {
+    readonly name: LlmProviderName;
+    generateText(request: TextGenerationRequest): Promise<TextGenerationResponse>;
+}
+
+export interface ImageGenerationProvider {
+    readonly name: LlmProviderName;
+    /**
+     * Returns the raw image bytes, or null if the model produced no image
+     */
+    generateImage(request: ImageGenerationRequest): Promise<Buffer | null>;
+}
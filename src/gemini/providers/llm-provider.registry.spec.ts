@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmProviderRegistry } from './llm-provider.registry';
+
+describe('LlmProviderRegistry', () => {
+    const createRegistry = (env: Record<string, string>) =>
+        new LlmProviderRegistry({ get: (key: string) => env[key] } as unknown as ConfigService);
+
+    it('uses LLM_PROVIDER and LLM_MODEL for every text stage', () => {
+        const { provider, model } = createRegistry({ LLM_PROVIDER: 'fake', LLM_MODEL: 'fake-large' }).resolveText('writing');
+
+        expect(provider.name).toBe('fake');
+        expect(model).toBe('fake-large');
+    });
+
+    it('lets a stage override the provider, falling back to that provider\'s default model', () => {
+        const registry = createRegistry({
+            LLM_PROVIDER: 'fake',
+            LLM_MODEL: 'fake-large',
+            LLM_FINAL_REVIEW_PROVIDER: 'openai',
+        });
+
+        const { provider, model } = registry.resolveText('finalReview');
+
+        expect(provider.name).toBe('openai');
+        expect(model).toBe('gpt-4o-mini');
+        expect(registry.resolveText('slug').model).toBe('fake-large');
+    });
+
+    it('resolves image generation on its own keys', () => {
+        const { provider, model } = createRegistry({ LLM_PROVIDER: 'openai', LLM_IMAGE_PROVIDER: 'fake' }).resolveImage();
+
+        expect(provider.name).toBe('fake');
+        expect(model).toBe('fake-image');
+    });
+
+    it('reuses one provider instance per name', () => {
+        const registry = createRegistry({ LLM_PROVIDER: 'fake' });
+
+        expect(registry.resolveText('seo').provider).toBe(registry.resolveText('writing').provider);
+    });
+
+    it('rejects unknown providers and a missing Gemini key', () => {
+        expect(() => createRegistry({ LLM_PROVIDER: 'claude' }).resolveText()).toThrow('Unknown LLM provider "claude"');
+        expect(() => createRegistry({}).resolveText()).toThrow('GEMINI_API_KEY is not configured');
+    });
+});
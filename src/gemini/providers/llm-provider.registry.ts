@@ -0,0 +1,117 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { FakeLlmProvider } from './fake.provider';
+import {
+    ImageGenerationProvider,
+    LlmProviderName,
+    LlmStage,
+    TextGenerationProvider,
+} from './llm-provider.interface';
+
+const DEFAULT_TEXT_MODELS: Record<LlmProviderName, string> = {
+    gemini: 'gemini-2.0-flash',
+    openai: 'gpt-4o-mini',
+    fake: 'fake-text',
+};
+
+const DEFAULT_IMAGE_MODELS: Record<LlmProviderName, string> = {
+    gemini: 'gemini-2.5-flash-image',
+    openai: 'dall-e-3',
+    fake: 'fake-image',
+};
+
+const PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'openai', 'fake'];
+
+/**
+ * Resolves which provider and model serve each pipeline stage.
+ *
+ * Config keys (all optional):
+ *   LLM_PROVIDER / LLM_MODEL                   - default for every text stage
+ *   LLM_<STAGE>_PROVIDER / LLM_<STAGE>_MODEL   - per-stage override, e.g. LLM_SLUG_MODEL
+ *   LLM_IMAGE_PROVIDER / LLM_IMAGE_MODEL       - image generation
+ *   OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY
+ */
+@Injectable()
+export class LlmProviderRegistry {
+    private readonly logger = new Logger(LlmProviderRegistry.name);
+    private readonly providers = new Map<LlmProviderName, TextGenerationProvider & ImageGenerationProvider>();
+
+    constructor(private configService: ConfigService) { }
+
+    resolveText(stage: LlmStage = 'default'): { provider: TextGenerationProvider; model: string } {
+        const key = this.stageKey(stage);
+        const providerName = this.providerName(
+            this.configService.get<string>(`LLM_${key}_PROVIDER`) || this.configService.get<string>('LLM_PROVIDER'),
+        );
+        const model = this.configService.get<string>(`LLM_${key}_MODEL`)
+            || (this.sameAsDefault(providerName) && this.configService.get<string>('LLM_MODEL'))
+            || DEFAULT_TEXT_MODELS[providerName];
+
+        return { provider: this.getProvider(providerName), model };
+    }
+
+    resolveImage(): { provider: ImageGenerationProvider; model: string } {
+        const providerName = this.providerName(this.configService.get<string>('LLM_IMAGE_PROVIDER'));
+        const model = this.configService.get<string>('LLM_IMAGE_MODEL') || DEFAULT_IMAGE_MODELS[providerName];
+
+        return { provider: this.getProvider(providerName), model };
+    }
+
+    /**
+     * Providers are created on first use so that, for example, a local-only
+     * setup does not need GEMINI_API_KEY.
+     */
+    private getProvider(name: LlmProviderName): TextGenerationProvider & ImageGenerationProvider {
+        let provider = this.providers.get(name);
+        if (provider) return provider;
+
+        switch (name) {
+            case 'gemini': {
+                const apiKey = this.configService.get<string>('GEMINI_API_KEY');
+                if (!apiKey) {
+                    this.logger.error('GEMINI_API_KEY is not configured');
+                    throw new Error('GEMINI_API_KEY is not configured');
+                }
+                provider = new GeminiProvider(apiKey);
+                break;
+            }
+            case 'openai': {
+                const baseUrl = this.configService.get<string>('OPENAI_COMPATIBLE_BASE_URL') || 'http://localhost:11434/v1';
+                provider = new OpenAICompatibleProvider(
+                    baseUrl,
+                    this.configService.get<string>('OPENAI_COMPATIBLE_API_KEY'),
+                );
+                break;
+            }
+            case 'fake':
+                provider = new FakeLlmProvider();
+                break;
+        }
+
+        this.logger.log(`LLM provider initialized: ${name}`);
+        this.providers.set(name, provider);
+        return provider;
+    }
+
+    private providerName(value: string | undefined): LlmProviderName {
+        if (!value) return 'gemini';
+        const name = value.toLowerCase() as LlmProviderName;
+        if (!PROVIDER_NAMES.includes(name)) {
+            throw new Error(`Unknown LLM provider "${value}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+        }
+        return name;
+    }
+
+    /**
+     * LLM_MODEL only applies to stages that use the default provider
+     */
+    private sameAsDefault(providerName: LlmProviderName): boolean {
+        return providerName === this.providerName(this.configService.get<string>('LLM_PROVIDER'));
+    }
+
+    private stageKey(stage: LlmStage): string {
+        return stage.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+    }
+}
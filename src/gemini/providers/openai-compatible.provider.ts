@@ -0,0 +1,106 @@
+import { Logger } from '@nestjs/common';
+import { fetchFromProvider, LlmProviderError } from '../llm-request-policy';
+import {
+    ImageGenerationProvider,
+    ImageGenerationRequest,
+    TextGenerationProvider,
+    TextGenerationRequest,
+    TextGenerationResponse,
+} from './llm-provider.interface';
+
+/** The parts of a /chat/completions response we read; servers differ in what else they send */
+interface ChatCompletionResponse {
+    model?: string;
+    choices?: { message?: { content?: string | null } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ImageGenerationResponse {
+    data?: { b64_json?: string }[];
+}
+
+/**
+ * Provider for any server speaking the OpenAI HTTP API
+ * (OpenAI itself, Ollama, llama.cpp server, vLLM, LM Studio...).
+ */
+export class OpenAICompatibleProvider implements TextGenerationProvider, ImageGenerationProvider {
+    readonly name = 'openai' as const;
+    private readonly logger = new Logger(OpenAICompatibleProvider.name);
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string, private readonly apiKey?: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async generateText(request: TextGenerationRequest): Promise<TextGenerationResponse> {
+        const messages: { role: string; content: string }[] = [];
+        if (request.systemInstruction) {
+            messages.push({ role: 'system', content: request.systemInstruction });
+        }
+        messages.push({ role: 'user', content: request.prompt });
+
+        const response = await fetchFromProvider(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify({
+                model: request.model,
+                messages,
+                ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new LlmProviderError(
+                `Chat completion failed with ${response.status}: ${errorText.substring(0, 300)}`,
+                response.status,
+                LlmProviderError.parseRetryAfter(response.headers.get('retry-after')),
+            );
+        }
+
+        const data = (await response.json()) as ChatCompletionResponse;
+        return {
+            text: data.choices?.[0]?.message?.content || '',
+            model: data.model || request.model,
+            usage: data.usage && {
+                promptTokens: data.usage.prompt_tokens ?? 0,
+                completionTokens: data.usage.completion_tokens ?? 0,
+            },
+        };
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<Buffer | null> {
+        const response = await fetchFromProvider(`${this.baseUrl}/images/generations`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify({
+                model: request.model,
+                prompt: request.prompt,
+                n: 1,
+                response_format: 'b64_json',
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            this.logger.warn(`Image API error ${response.status}: ${errorText.substring(0, 300)}`);
+            throw new LlmProviderError(
+                `Image API error ${response.status}`,
+                response.status,
+                LlmProviderError.parseRetryAfter(response.headers.get('retry-after')),
+            );
+        }
+
+        const data = (await response.json()) as ImageGenerationResponse;
+        const b64 = data.data?.[0]?.b64_json;
+        return b64 ? Buffer.from(b64, 'base64') : null;
+    }
+
+    private headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+}
@@ -0,0 +1,46 @@
+import sharp from 'sharp';
+import { processImage, stripMetadata, variantWidths } from './image-processing';
+
+describe('image processing', () => {
+    it('caps variant widths at the original width', () => {
+        expect(variantWidths(2000, [480, 768, 1200])).toEqual([480, 768, 1200]);
+        expect(variantWidths(1024, [480, 768, 1200])).toEqual([480, 768, 1024]);
+        expect(variantWidths(300, [480, 768, 1200])).toEqual([300]);
+    });
+
+    it('encodes WebP and AVIF variants without metadata and a blur placeholder', async () => {
+        const png = await sharp({ create: { width: 1024, height: 512, channels: 3, background: '#336699' } })
+            .withMetadata({ exif: { IFD0: { Copyright: 'secret' } } })
+            .png()
+            .toBuffer();
+
+        const result = await processImage(png, [480, 1200]);
+
+        expect(result).toMatchObject({ width: 1024, height: 512 });
+        expect(result.blurDataUrl).toMatch(/^data:image\/webp;base64,/);
+        expect(result.variants.map(v => [v.format, v.width, v.height])).toEqual([
+            ['avif', 480, 240],
+            ['webp', 480, 240],
+            ['avif', 1024, 512],
+            ['webp', 1024, 512],
+        ]);
+
+        const metadata = await sharp(result.variants[1].buffer).metadata();
+        expect(metadata.format).toBe('webp');
+        expect(metadata.exif).toBeUndefined();
+    });
+
+    it('strips metadata from the stored original, keeping it upright', async () => {
+        const png = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#336699' } })
+            .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: 'secret' } } })
+            .png()
+            .toBuffer();
+
+        const metadata = await sharp(await stripMetadata(png)).metadata();
+
+        expect(metadata).toMatchObject({ format: 'png', width: 20, height: 40 });
+        expect(metadata.exif).toBeUndefined();
+        expect(metadata.xmp).toBeUndefined();
+        expect(metadata.orientation).toBeUndefined();
+    });
+});
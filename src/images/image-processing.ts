@@ -0,0 +1,81 @@
+import sharp from 'sharp';
+
+export type ImageFormat = 'webp' | 'avif';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp'];
+
+export const DEFAULT_VARIANT_WIDTHS = [480, 768, 1200];
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+export interface EncodedVariant {
+    format: ImageFormat;
+    width: number;
+    height: number;
+    buffer: Buffer;
+}
+
+export interface ProcessedImage {
+    width: number;
+    height: number;
+    /** Tiny WebP as a data URL, for a blurred placeholder while the real image loads */
+    blurDataUrl: string;
+    variants: EncodedVariant[];
+}
+
+/**
+ * Widths to encode for an image of the given width: every configured width
+ * smaller than the original, plus the original width capped at the largest
+ * configured one. Images are never upscaled.
+ */
+export function variantWidths(originalWidth: number, widths: number[]): number[] {
+    const smaller = widths.filter(width => width < originalWidth);
+    return Array.from(new Set([...smaller, Math.min(originalWidth, Math.max(...widths))])).sort((a, b) => a - b);
+}
+
+/**
+ * Re-encode an image as PNG without its EXIF/XMP/ICC metadata, applying the
+ * EXIF orientation first so the stored original still displays upright.
+ */
+export async function stripMetadata(input: Buffer): Promise<Buffer> {
+    return sharp(input).rotate().png().toBuffer();
+}
+
+/**
+ * Resize an image to each variant width in WebP and AVIF. Output carries
+ * no EXIF/ICC metadata (sharp drops it unless asked to keep it), and the
+ * EXIF orientation is applied first so stripping it doesn't rotate the image.
+ */
+export async function processImage(input: Buffer, widths: number[] = DEFAULT_VARIANT_WIDTHS): Promise<ProcessedImage> {
+    const source = sharp(input).rotate();
+    const { data: normalized, info } = await source.toBuffer({ resolveWithObject: true });
+
+    const variants: EncodedVariant[] = [];
+    // Encoded one at a time: AVIF in particular is CPU and memory hungry
+    for (const width of variantWidths(info.width, widths)) {
+        for (const format of IMAGE_FORMATS) {
+            let pipeline = sharp(normalized).resize({ width, withoutEnlargement: true });
+            pipeline = format === 'avif'
+                ? pipeline.avif({ quality: 50, effort: 4 })
+                : pipeline.webp({ quality: 75 });
+
+            const { data, info: output } = await pipeline.toBuffer({ resolveWithObject: true });
+            variants.push({ format, width: output.width, height: output.height, buffer: data });
+        }
+    }
+
+    const placeholder = await sharp(normalized)
+        .resize({ width: 16 })
+        .webp({ quality: 40 })
+        .toBuffer();
+
+    return {
+        width: info.width,
+        height: info.height,
+        blurDataUrl: `data:image/webp;base64,${placeholder.toString('base64')}`,
+        variants,
+    };
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ImagesService } from './images.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+    imports: [SupabaseModule],
+    providers: [ImagesService],
+    exports: [ImagesService],
+})
+export class ImagesModule { }
@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { ArticleImage, ImageVariant } from '../supabase/supabase.service';
+import { DEFAULT_VARIANT_WIDTHS, IMAGE_CONTENT_TYPES, processImage, stripMetadata } from './image-processing';
+
+export type StoredImage = Pick<ArticleImage, 'width' | 'height' | 'blur_data_url' | 'variants'> & { storage_url: string };
+
+/**
+ * Uploads article images together with their responsive variants.
+ *
+ * Config keys:
+ *   IMAGE_VARIANT_WIDTHS (comma-separated, default 480,768,1200)
+ */
+@Injectable()
+export class ImagesService {
+    private readonly logger = new Logger(ImagesService.name);
+    private readonly widths: number[];
+
+    constructor(
+        private configService: ConfigService,
+        private supabaseService: SupabaseService,
+    ) {
+        const widths = (this.configService.get<string>('IMAGE_VARIANT_WIDTHS') || '')
+            .split(',')
+            .map(Number)
+            .filter(width => Number.isInteger(width) && width > 0);
+        this.widths = widths.length > 0 ? widths : DEFAULT_VARIANT_WIDTHS;
+    }
+
+    /**
+     * Upload the original PNG, stripped of its metadata, as `<baseName>.png`
+     * and WebP/AVIF variants as `<baseName>-<width>.<format>`. If the variants
+     * can't be encoded the original is still stored, just without them.
+     */
+    async upload(articleId: string, png: Buffer, baseName: string): Promise<StoredImage> {
+        const original = await stripMetadata(png);
+        const storageUrl = await this.supabaseService.uploadImage(articleId, original, `${baseName}.png`);
+
+        try {
+            const processed = await processImage(original, this.widths);
+            const variants: ImageVariant[] = await Promise.all(processed.variants.map(async variant => ({
+                format: variant.format,
+                width: variant.width,
+                height: variant.height,
+                url: await this.supabaseService.uploadImage(
+                    articleId,
+                    variant.buffer,
+                    `${baseName}-${variant.width}.${variant.format}`,
+                    IMAGE_CONTENT_TYPES[variant.format],
+                ),
+            })));
+
+            return {
+                storage_url: storageUrl,
+                width: processed.width,
+                height: processed.height,
+                blur_data_url: processed.blurDataUrl,
+                variants,
+            };
+        } catch (error) {
+            this.logger.warn(`Failed to create variants for ${baseName} of article ${articleId}`, error);
+            return { storage_url: storageUrl, width: null, height: null, blur_data_url: null, variants: [] };
+        }
+    }
+}
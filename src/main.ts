@@ -19,7 +19,7 @@ async function bootstrap() {
   }));
 
   // API prefix
-  app.setGlobalPrefix('api');
+  app.setGlobalPrefix('api', { exclude: ['robots.txt'] });
 
   const port = process.env.BACKEND_PORT || 3001;
   await app.listen(port);
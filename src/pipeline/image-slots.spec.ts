@@ -0,0 +1,83 @@
+import { applyImageSlots, parseImageSlots } from './image-slots';
+
+const article = [
+    '# Kubernetes in Practice',
+    '',
+    'Intro text.',
+    '',
+    '## Setting Up',
+    '',
+    '[IMAGE_PROMPT_1]',
+    '<!-- Image: A laptop showing a cluster dashboard -->',
+    '',
+    'Use `[IMAGE_PROMPT_9]` to mark images.',
+    '',
+    '```',
+    '[IMAGE_PROMPT_8]',
+    '```',
+    '',
+    '[IMAGE_PROMPT_2]: Pods',
+    '',
+    '## Scaling Out',
+    '',
+    '[IMAGE_PROMPT_3]: Autoscaler graph! Nodes appear as load rises',
+    'What comes next stays.',
+    '',
+    '[IMAGE_PROMPT_4]',
+].join('\n');
+
+describe('parseImageSlots', () => {
+    it('finds every placeholder with its prompt and section, skipping code', () => {
+        const { slots } = parseImageSlots(article);
+
+        expect(slots.map(({ placeholder, prompt, section }) => ({ placeholder, prompt, section }))).toEqual([
+            { placeholder: '[IMAGE_PROMPT_1]', prompt: 'A laptop showing a cluster dashboard', section: 'Setting Up' },
+            { placeholder: '[IMAGE_PROMPT_2]', prompt: 'Pods', section: 'Setting Up' },
+            {
+                placeholder: '[IMAGE_PROMPT_3]',
+                prompt: 'Autoscaler graph! Nodes appear as load rises',
+                section: 'Scaling Out',
+            },
+            { placeholder: '[IMAGE_PROMPT_4]', prompt: 'Illustration for: Scaling Out', section: 'Scaling Out' },
+        ]);
+        expect(slots.map(slot => slot.position)).toEqual([1, 2, 3, 4]);
+    });
+});
+
+describe('applyImageSlots', () => {
+    it('puts images in filled slots and removes the rest without touching surrounding text', () => {
+        const { markdown, slots } = parseImageSlots(article);
+        Object.assign(slots[0], { status: 'filled', imageUrl: 'https://cdn.example.com/1.png', alt: 'Cluster [dashboard]' });
+        Object.assign(slots[2], { status: 'filled', imageUrl: 'https://cdn.example.com/3.png', alt: 'Autoscaler' });
+        slots[1].status = 'failed';
+
+        expect(applyImageSlots(markdown, slots)).toBe([
+            '# Kubernetes in Practice',
+            '',
+            'Intro text.',
+            '',
+            '## Setting Up',
+            '',
+            '![Cluster dashboard](https://cdn.example.com/1.png)',
+            '',
+            'Use `[IMAGE_PROMPT_9]` to mark images.',
+            '',
+            '```',
+            '[IMAGE_PROMPT_8]',
+            '```',
+            '',
+            '## Scaling Out',
+            '',
+            '![Autoscaler](https://cdn.example.com/3.png)',
+            '',
+            'What comes next stays.',
+        ].join('\n'));
+    });
+
+    it('keeps lists intact when a placeholder sits inside one', () => {
+        const { markdown, slots } = parseImageSlots('- first [IMAGE_PROMPT_1]\n- second');
+
+        expect(slots[0].inline).toBe(true);
+        expect(applyImageSlots(markdown, slots)).toBe('- first \n- second');
+    });
+});
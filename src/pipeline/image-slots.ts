@@ -0,0 +1,169 @@
+import { marked } from 'marked';
+import type { Token, Tokens } from 'marked';
+import { toMarkdownAlt } from '../articles/image-links';
+
+export type ImageSlotStatus = 'pending' | 'filled' | 'failed';
+
+/**
+ * An `[IMAGE_PROMPT_N]` placeholder written by the model, and what became of it
+ */
+export interface ImageSlot {
+    /** 1-based position of the placeholder in the article */
+    position: number;
+    placeholder: string;
+    prompt: string;
+    /** Nearest H2 above the placeholder */
+    section: string | null;
+    status: ImageSlotStatus;
+    imageUrl?: string;
+    alt?: string;
+    error?: string;
+}
+
+/**
+ * A slot together with the span it occupies in the markdown: the placeholder
+ * plus its description (`: prompt` or `<!-- Image: prompt -->`)
+ */
+export interface ParsedImageSlot extends ImageSlot {
+    start: number;
+    end: number;
+    /** Inside a list, table or quote rather than a paragraph of its own */
+    inline: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /\[IMAGE_PROMPT_(\d+)\]/g;
+const DESCRIPTION_PATTERN = /^(?:[ \t]*:[ \t]*([^\n]*)|\s*<!--\s*Image:\s*([\s\S]*?)\s*-->)/;
+const IMAGE_COMMENT_PATTERN = /^<!--\s*Image:\s*([\s\S]*?)\s*-->/;
+
+/**
+ * Find the image placeholders in an article. Placeholders in code are ignored.
+ * Slot offsets refer to the returned markdown, which has normalized line endings.
+ */
+export function parseImageSlots(markdown: string): { markdown: string; slots: ParsedImageSlot[] } {
+    const source = markdown.replace(/\r\n?/g, '\n');
+    const slots: ParsedImageSlot[] = [];
+    let section: string | null = null;
+
+    const scan = (raw: string, masked: string, offset: number, inline: boolean) => {
+        let scannedTo = 0;
+        for (const match of masked.matchAll(PLACEHOLDER_PATTERN)) {
+            // Already swallowed by the previous placeholder's description
+            if (match.index < scannedTo) continue;
+
+            let end = match.index + match[0].length;
+            const description = DESCRIPTION_PATTERN.exec(raw.slice(end));
+            if (description) end += description[0].length;
+            scannedTo = end;
+
+            slots.push({
+                position: slots.length + 1,
+                placeholder: match[0],
+                prompt: (description?.[2] ?? description?.[1] ?? '').trim(),
+                section,
+                status: 'pending',
+                start: offset + match.index,
+                end: offset + end,
+                inline,
+            });
+        }
+    };
+
+    let cursor = 0;
+    for (const token of marked.lexer(source)) {
+        const start = source.indexOf(token.raw, cursor);
+        if (start === -1) continue;
+
+        // The lexer drops link reference definitions, and `[IMAGE_PROMPT_1]: word` is one
+        if (start > cursor) {
+            const gap = source.slice(cursor, start);
+            scan(gap, gap, cursor, false);
+        }
+        cursor = start + token.raw.length;
+
+        switch (token.type) {
+            case 'heading': {
+                const heading = token as Tokens.Heading;
+                if (heading.depth === 2) section = heading.text;
+                break;
+            }
+            case 'code':
+            case 'space':
+                break;
+            case 'html': {
+                // `<!-- Image: ... -->` on the line after a bare placeholder
+                const comment = IMAGE_COMMENT_PATTERN.exec(token.raw);
+                const previous = slots.at(-1);
+                if (comment && previous && !previous.prompt && !source.slice(previous.end, start).trim()) {
+                    previous.prompt = comment[1].trim();
+                    previous.end = start + comment[0].length;
+                }
+                break;
+            }
+            default:
+                scan(token.raw, maskInlineCode(token), start, token.type !== 'paragraph');
+        }
+    }
+    if (cursor < source.length) {
+        const rest = source.slice(cursor);
+        scan(rest, rest, cursor, false);
+    }
+
+    for (const slot of slots) {
+        if (!slot.prompt) {
+            slot.prompt = slot.section
+                ? `Illustration for: ${slot.section}`
+                : `Blog section illustration ${slot.placeholder.replace(/\D/g, '')}`;
+        }
+    }
+
+    return { markdown: source, slots };
+}
+
+/**
+ * Replace filled slots with their image and remove every other slot.
+ * `markdown` must be the one returned by parseImageSlots.
+ */
+export function applyImageSlots(markdown: string, slots: ParsedImageSlot[]): string {
+    let result = markdown;
+
+    // Back to front so earlier offsets stay valid
+    for (const slot of [...slots].sort((a, b) => b.start - a.start)) {
+        const image = slot.status === 'filled' && slot.imageUrl
+            ? `![${toMarkdownAlt(slot.alt ?? slot.prompt)}](${slot.imageUrl})`
+            : '';
+
+        if (slot.inline) {
+            result = result.slice(0, slot.start) + image + result.slice(slot.end);
+        } else {
+            const before = result.slice(0, slot.start).trimEnd();
+            const after = result.slice(slot.end).trimStart();
+            result = [before, image, after].filter(Boolean).join('\n\n');
+        }
+    }
+
+    return result.trim();
+}
+
+/**
+ * The slot without its position in the markdown, for results and checkpoints
+ */
+export function toImageSlot(slot: ParsedImageSlot): ImageSlot {
+    const { position, placeholder, prompt, section, status, imageUrl, alt, error } = slot;
+    return { position, placeholder, prompt, section, status, imageUrl, alt, error };
+}
+
+/**
+ * Blank out inline code so placeholders quoted in backticks are left alone
+ */
+function maskInlineCode(token: Token): string {
+    let masked = token.raw;
+    let from = 0;
+    void marked.walkTokens([token], child => {
+        if (child.type !== 'codespan') return;
+        const index = masked.indexOf(child.raw, from);
+        if (index === -1) return;
+        masked = masked.slice(0, index) + ' '.repeat(child.raw.length) + masked.slice(index + child.raw.length);
+        from = index + child.raw.length;
+    });
+    return masked;
+}
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { PipelineRun } from '../supabase/supabase.service';
+import { PipelineQueueService } from './pipeline-queue.service';
+import { PipelineService } from './pipeline.service';
+
+describe('PipelineQueueService', () => {
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    const createQueue = (concurrency?: string, leftover: string[] = []) => {
+        let created = 0;
+        const started: string[] = [];
+        const finish = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+
+        const pipeline = {
+            createQueuedRun: jest.fn().mockImplementation((topic: string) => Promise.resolve({
+                id: `run-${++created}`,
+                topic,
+                status: 'queued',
+            } as PipelineRun)),
+            getQueuedRuns: jest.fn().mockResolvedValue(leftover.map(id => ({ id, status: 'queued' }) as PipelineRun)),
+            executeQueuedRun: jest.fn().mockImplementation((runId: string) => {
+                started.push(runId);
+                return new Promise<void>((resolve, reject) => finish.set(runId, { resolve, reject }));
+            }),
+        };
+        const queue = new PipelineQueueService(
+            { get: () => concurrency } as unknown as ConfigService,
+            pipeline as unknown as PipelineService,
+        );
+        return { queue, started, finish };
+    };
+
+    it('runs at most PIPELINE_CONCURRENCY jobs at once, in the order they were queued', async () => {
+        const { queue, started, finish } = createQueue('2');
+
+        for (const topic of ['a', 'b', 'c', 'd']) {
+            await queue.enqueue(topic);
+        }
+
+        expect(started).toEqual(['run-1', 'run-2']);
+        expect(queue.getQueuePosition('run-3')).toBe(1);
+        expect(queue.getQueuePosition('run-4')).toBe(2);
+
+        finish.get('run-2')?.resolve();
+        await flush();
+
+        expect(started).toEqual(['run-1', 'run-2', 'run-3']);
+        expect(queue.getQueuePosition('run-3')).toBeNull();
+        expect(queue.getQueuePosition('run-4')).toBe(1);
+    });
+
+    it('reports the persisted job straight away', async () => {
+        const { queue } = createQueue();
+
+        await expect(queue.enqueue('Monsoon season')).resolves.toMatchObject({ id: 'run-1', status: 'queued' });
+        expect(queue.getQueuePosition('run-1')).toBeNull();
+    });
+
+    it('keeps draining after a job crashes', async () => {
+        const { queue, started, finish } = createQueue('1');
+
+        await queue.enqueue('a');
+        await queue.enqueue('b');
+        finish.get('run-1')?.reject(new Error('Out of memory'));
+        await flush();
+
+        expect(started).toEqual(['run-1', 'run-2']);
+    });
+
+    it('re-queues runs left in the queued state by a restart', async () => {
+        const { queue, started } = createQueue('1', ['run-a', 'run-b']);
+
+        queue.onApplicationBootstrap();
+        await flush();
+
+        expect(started).toEqual(['run-a']);
+        expect(queue.getQueuePosition('run-b')).toBe(1);
+    });
+});
@@ -0,0 +1,79 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PipelineRun, PipelineRunOptions } from '../supabase/supabase.service';
+import { PipelineService } from './pipeline.service';
+
+/**
+ * In-process job queue for pipeline runs.
+ * Runs are persisted as `queued` first, then executed with at most
+ * PIPELINE_CONCURRENCY runs in flight at a time. Runs still queued on boot
+ * (left behind by a restart or redeploy) are queued again.
+ */
+@Injectable()
+export class PipelineQueueService implements OnApplicationBootstrap {
+    private readonly logger = new Logger(PipelineQueueService.name);
+    private readonly concurrency: number;
+    private readonly pending: string[] = [];
+    private active = 0;
+
+    constructor(
+        private configService: ConfigService,
+        private pipelineService: PipelineService,
+    ) {
+        const configured = Number(this.configService.get<string>('PIPELINE_CONCURRENCY'));
+        this.concurrency = Number.isInteger(configured) && configured > 0 ? configured : 2;
+    }
+
+    onApplicationBootstrap() {
+        // Pick up runs a restart or redeploy dropped from the in-memory queue
+        void this.requeuePending();
+    }
+
+    /**
+     * Queue a new pipeline run for a topic and return the persisted job
+     */
+    async enqueue(topic: string, options: PipelineRunOptions = {}): Promise<PipelineRun> {
+        const run = await this.pipelineService.createQueuedRun(topic, options);
+        this.pending.push(run.id);
+        this.logger.log(`Queued pipeline run ${run.id} (${this.pending.length} pending, ${this.active} active)`);
+        this.drain();
+        return run;
+    }
+
+    /**
+     * Position of a job in the pending queue (1-based), or null if it is not waiting
+     */
+    getQueuePosition(runId: string): number | null {
+        const index = this.pending.indexOf(runId);
+        return index === -1 ? null : index + 1;
+    }
+
+    private drain() {
+        while (this.active < this.concurrency && this.pending.length > 0) {
+            const runId = this.pending.shift() as string;
+            this.active++;
+
+            this.pipelineService
+                .executeQueuedRun(runId)
+                .catch(error => this.logger.error(`Pipeline run ${runId} crashed`, error))
+                .finally(() => {
+                    this.active--;
+                    this.drain();
+                });
+        }
+    }
+
+    private async requeuePending() {
+        try {
+            const queued = await this.pipelineService.getQueuedRuns();
+            const waiting = queued.filter(run => !this.pending.includes(run.id));
+            if (waiting.length === 0) return;
+
+            this.pending.push(...waiting.map(run => run.id));
+            this.logger.log(`Re-queued ${waiting.length} pipeline runs left over from before startup`);
+            this.drain();
+        } catch (error) {
+            this.logger.error('Failed to re-queue pending pipeline runs', error);
+        }
+    }
+}
@@ -1,10 +1,81 @@
-import { Controller, Sse, Param, MessageEvent } from '@nestjs/common';
+import { Controller, Sse, Get, Post, Param, MessageEvent, HttpException, HttpStatus } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Observable, fromEvent, map, filter } from 'rxjs';
+import { PipelineService } from './pipeline.service';
+import { PipelineQueueService } from './pipeline-queue.service';
+import { Roles } from '../auth/auth.decorators';
+import { EDITORIAL_ROLES, STAFF_ROLES } from '../auth/roles';
 
 @Controller('pipeline')
 export class PipelineController {
-    constructor(private eventEmitter: EventEmitter2) { }
+    constructor(
+        private eventEmitter: EventEmitter2,
+        private pipelineService: PipelineService,
+        private pipelineQueueService: PipelineQueueService,
+    ) { }
+
+    /**
+     * GET /api/pipeline/jobs/:id
+     * Poll the status of an article generation job
+     */
+    @Get('jobs/:id')
+    @Roles(...STAFF_ROLES)
+    async getJob(@Param('id') id: string) {
+        const status = await this.pipelineService.getJobStatus(id);
+        if (!status) {
+            throw new HttpException('Job not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: {
+                ...status,
+                queuePosition: this.pipelineQueueService.getQueuePosition(id),
+            },
+        };
+    }
+
+    /**
+     * GET /api/pipeline/runs/:id
+     * Get a pipeline run with its stage checkpoints
+     */
+    @Get('runs/:id')
+    @Roles(...STAFF_ROLES)
+    async getRun(@Param('id') id: string) {
+        const result = await this.pipelineService.getRun(id);
+        if (!result) {
+            throw new HttpException('Pipeline run not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: result,
+        };
+    }
+
+    /**
+     * POST /api/pipeline/runs/:id/resume
+     * Resume a failed or stalled pipeline run from its first incomplete stage
+     */
+    @Post('runs/:id/resume')
+    @Roles(...EDITORIAL_ROLES)
+    async resumeRun(@Param('id') id: string) {
+        let result;
+        try {
+            result = await this.pipelineService.resumePipeline(id);
+        } catch (error) {
+            if (error instanceof HttpException) throw error;
+            throw new HttpException(
+                `Failed to resume pipeline: ${error}`,
+                HttpStatus.INTERNAL_SERVER_ERROR,
+            );
+        }
+        if (!result) {
+            throw new HttpException('Pipeline run not found', HttpStatus.NOT_FOUND);
+        }
+        return {
+            success: true,
+            data: result,
+        };
+    }
 
     @Sse('stream/:topic')
     streamProgress(@Param('topic') topic: string): Observable<MessageEvent> {
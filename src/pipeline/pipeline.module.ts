@@ -1,18 +1,25 @@
 import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { PipelineService } from './pipeline.service';
+import { PipelineQueueService } from './pipeline-queue.service';
 import { PipelineController } from './pipeline.controller';
 import { GeminiModule } from '../gemini/gemini.module';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { AuthModule } from '../auth/auth.module';
+import { ImagesModule } from '../images/images.module';
 
 @Module({
     imports: [
         EventEmitterModule,
         GeminiModule,
-        SupabaseModule
+        SupabaseModule,
+        WorkflowModule,
+        AuthModule,
+        ImagesModule,
     ],
     controllers: [PipelineController],
-    providers: [PipelineService],
-    exports: [PipelineService],
+    providers: [PipelineService, PipelineQueueService],
+    exports: [PipelineService, PipelineQueueService],
 })
 export class PipelineModule { }
@@ -0,0 +1,216 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Article, PipelineRun, PipelineStageResult, SupabaseService } from '../supabase/supabase.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { ImagesService } from '../images/images.service';
+import { getUsageContext } from '../usage/usage-context';
+import { PipelineService } from './pipeline.service';
+
+describe('PipelineService checkpoints', () => {
+    const createService = (initialRun: Partial<PipelineRun> = {}) => {
+        let run = {
+            id: 'run-1',
+            topic: 'Monsoon season',
+            author_id: null,
+            article_id: null,
+            style_profile_id: null,
+            locale: 'en',
+            status: 'queued',
+            current_stage: null,
+            errors: [],
+            created_at: '2026-01-01T00:00:00.000Z',
+            updated_at: '2026-01-01T00:00:00.000Z',
+            completed_at: null,
+            ...initialRun,
+        } as PipelineRun;
+        const article = { id: 'article-1', status: 'processing' } as Article;
+        const checkpoints: Partial<PipelineStageResult>[] = [];
+
+        const supabase = {
+            createPipelineRun: jest.fn().mockImplementation(() => Promise.resolve({ ...run })),
+            getPipelineRun: jest.fn().mockImplementation(() => Promise.resolve({ ...run })),
+            updatePipelineRun: jest.fn().mockImplementation((_id: string, updates: Partial<PipelineRun>) => {
+                run = { ...run, ...updates };
+                return Promise.resolve({ ...run });
+            }),
+            claimPipelineRun: jest.fn().mockImplementation((_id: string, from: string, updatedBefore?: string) => {
+                if (run.status !== from || (updatedBefore && run.updated_at >= updatedBefore)) {
+                    return Promise.resolve(null);
+                }
+                run = { ...run, status: 'running' };
+                return Promise.resolve({ ...run });
+            }),
+            getPipelineStageResults: jest.fn().mockImplementation(() => Promise.resolve([...checkpoints])),
+            savePipelineStageResult: jest.fn().mockImplementation(
+                (_runId: string, stage: string, succeeded: boolean, output: Record<string, unknown>) => {
+                    const existing = checkpoints.findIndex(checkpoint => checkpoint.stage === stage);
+                    checkpoints.splice(existing === -1 ? checkpoints.length : existing, 1, { stage, succeeded, output });
+                    return Promise.resolve({});
+                },
+            ),
+            createArticle: jest.fn().mockResolvedValue(article),
+            getArticle: jest.fn().mockImplementation(() => Promise.resolve({ ...article, status: 'failed' })),
+            updateArticle: jest.fn().mockResolvedValue(article),
+            getAllCategories: jest.fn().mockResolvedValue([]),
+            findOrCreateCategory: jest.fn().mockResolvedValue({ id: 'category-1', name: 'Weather' }),
+            updateArticleCategory: jest.fn().mockResolvedValue(undefined),
+            deleteArticleImages: jest.fn().mockResolvedValue(undefined),
+            deleteArticleComponents: jest.fn().mockResolvedValue(undefined),
+            setArticlePromptVersion: jest.fn().mockResolvedValue(undefined),
+        };
+        const gemini = {
+            suggestSlug: jest.fn().mockResolvedValue('monsoon-season'),
+            suggestCategory: jest.fn().mockResolvedValue({ categoryName: 'Weather', description: 'Weather' }),
+            seoResearch: jest.fn().mockResolvedValue({
+                keywords: ['monsoon'],
+                h2Structure: [{ h2: 'When it rains', h3s: [] }],
+                metaDescription: 'When the rains come',
+            }),
+            writeArticle: jest.fn()
+                .mockRejectedValueOnce(new Error('Model overloaded'))
+                .mockResolvedValue({ title: 'Monsoon season', content: '# Monsoon season\n\nIt rains.' }),
+            humanizeContent: jest.fn().mockResolvedValue('# Monsoon season\n\nIt rains a lot.'),
+            generateImage: jest.fn().mockResolvedValue(null),
+            generateInteractiveComponent: jest.fn().mockResolvedValue(null),
+            finalReviewAndRestructure: jest.fn().mockResolvedValue('# Monsoon season\n\nIt rains a lot.'),
+        };
+        const workflow = {
+            recordCreated: jest.fn().mockResolvedValue(undefined),
+            transition: jest.fn().mockImplementation((_id: string, to: Article['status']) => Promise.resolve({ ...article, status: to })),
+        };
+
+        const images = {
+            upload: jest.fn().mockImplementation((_articleId: string, _png: Buffer, baseName: string) => Promise.resolve({
+                storage_url: `https://cdn.example.com/${baseName}.png`,
+                width: 1200,
+                height: 675,
+                blur_data_url: 'data:image/webp;base64,AAAA',
+                variants: [{ format: 'webp', width: 1200, height: 675, url: `https://cdn.example.com/${baseName}-1200.webp` }],
+            })),
+        };
+
+        const service = new PipelineService(
+            { get: () => undefined } as unknown as ConfigService,
+            gemini as unknown as GeminiService,
+            supabase as unknown as SupabaseService,
+            { emit: jest.fn() } as unknown as EventEmitter2,
+            workflow as unknown as ArticleWorkflowService,
+            images as unknown as ImagesService,
+        );
+        return { service, supabase, gemini, images, checkpoints };
+    };
+
+    it('resumes a failed run from the stage that failed', async () => {
+        const { service, supabase, gemini, checkpoints } = createService();
+
+        const failed = await service.executePipeline('Monsoon season');
+
+        expect(failed.stages.writing).toBe(false);
+        expect(checkpoints.map(checkpoint => checkpoint.stage)).toEqual(['category', 'seoResearch']);
+        expect(supabase.updatePipelineRun).toHaveBeenLastCalledWith('run-1', expect.objectContaining({ status: 'failed' }));
+
+        const resumed = await service.resumePipeline('run-1');
+
+        expect(supabase.claimPipelineRun).toHaveBeenCalledWith('run-1', 'failed', undefined);
+        expect(gemini.suggestCategory).toHaveBeenCalledTimes(1);
+        expect(gemini.seoResearch).toHaveBeenCalledTimes(1);
+        expect(gemini.writeArticle).toHaveBeenCalledTimes(2);
+        expect(gemini.writeArticle).toHaveBeenLastCalledWith(
+            'Monsoon season',
+            ['monsoon'],
+            [{ h2: 'When it rains', h3s: [] }],
+            expect.anything(),
+        );
+        expect(Object.values(resumed?.stages ?? {})).toEqual(Array(7).fill(true));
+        expect(supabase.createArticle).toHaveBeenCalledTimes(1);
+        expect(supabase.updatePipelineRun).toHaveBeenLastCalledWith('run-1', expect.objectContaining({ status: 'completed' }));
+    });
+
+    it('retries stages that failed on an earlier attempt when resuming', async () => {
+        const { service, gemini, checkpoints } = createService();
+        gemini.suggestCategory.mockRejectedValueOnce(new Error('Model overloaded'));
+
+        await service.executePipeline('Monsoon season');
+        expect(checkpoints.find(checkpoint => checkpoint.stage === 'category')?.succeeded).toBe(false);
+
+        const resumed = await service.resumePipeline('run-1');
+
+        expect(gemini.suggestCategory).toHaveBeenCalledTimes(2);
+        expect(gemini.seoResearch).toHaveBeenCalledTimes(1);
+        expect(resumed?.stages.category).toBe(true);
+    });
+
+    it('reports job status from the run and its checkpoints', async () => {
+        const { service } = createService();
+        await service.executePipeline('Monsoon season');
+
+        const status = await service.getJobStatus('run-1');
+
+        expect(status).toMatchObject({
+            id: 'run-1',
+            status: 'failed',
+            articleId: 'article-1',
+            currentStage: 'writing',
+            stages: { category: true, seoResearch: true, writing: false },
+        });
+        expect(status?.errors).toEqual([expect.stringContaining('Model overloaded')]);
+    });
+
+    it('refuses to resume a run that is still making progress', async () => {
+        const { service, gemini } = createService({ status: 'running', updated_at: new Date().toISOString() });
+
+        await expect(service.resumePipeline('run-1')).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+        expect(gemini.suggestSlug).not.toHaveBeenCalled();
+    });
+
+    it('resumes a running run that has stalled', async () => {
+        const { service, supabase } = createService({ status: 'running', updated_at: '2026-01-01T00:00:00.000Z' });
+
+        await service.resumePipeline('run-1');
+
+        expect(supabase.claimPipelineRun).toHaveBeenCalledWith('run-1', 'running', expect.any(String));
+        expect(supabase.createArticle).toHaveBeenCalled();
+    });
+
+    it('stores the thumbnail with responsive variants', async () => {
+        const { service, supabase, gemini, images } = createService();
+        gemini.writeArticle.mockReset().mockResolvedValue({ title: 'Monsoon season', content: '# Monsoon season\n\nIt rains.' });
+        gemini.generateImage.mockResolvedValueOnce(Buffer.from('png'));
+
+        await service.executePipeline('Monsoon season');
+
+        expect(images.upload).toHaveBeenCalledWith('article-1', Buffer.from('png'), 'thumbnail');
+        expect(supabase.updateArticle).toHaveBeenCalledWith('article-1', {
+            thumbnail_url: 'https://cdn.example.com/thumbnail.png',
+            thumbnail_image: {
+                width: 1200,
+                height: 675,
+                blur_data_url: 'data:image/webp;base64,AAAA',
+                variants: [{ format: 'webp', width: 1200, height: 675, url: 'https://cdn.example.com/thumbnail-1200.webp' }],
+            },
+        });
+    });
+
+    it('skips a queued run that was already started elsewhere', async () => {
+        const { service, supabase, gemini } = createService({ status: 'running' });
+
+        await expect(service.executeQueuedRun('run-1')).resolves.toBeNull();
+        expect(supabase.claimPipelineRun).toHaveBeenCalledWith('run-1', 'queued');
+        expect(gemini.suggestSlug).not.toHaveBeenCalled();
+    });
+
+    it('records prompts rendered before the article existed once it does', async () => {
+        const { service, supabase, gemini } = createService();
+        gemini.suggestSlug.mockImplementation(() => {
+            const { promptVersions } = getUsageContext();
+            if (promptVersions) promptVersions.slug = 4;
+            return Promise.resolve('monsoon-season');
+        });
+
+        await service.executePipeline('Monsoon season');
+
+        expect(supabase.setArticlePromptVersion).toHaveBeenCalledWith('article-1', 'slug', 4);
+    });
+});
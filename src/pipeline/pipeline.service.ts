@@ -1,11 +1,37 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { GeminiService } from '../gemini/gemini.service';
-import { SupabaseService, Article } from '../supabase/supabase.service';
+import type { WritingOptions } from '../gemini/gemini.service';
+import { SupabaseService, Article, PipelineRun, PipelineRunOptions, PipelineStageResult, StyleProfile } from '../supabase/supabase.service';
+import { runWithUsageContext } from '../usage/usage-context';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { ImagesService } from '../images/images.service';
+import { applyImageSlots, parseImageSlots, toImageSlot } from './image-slots';
+import type { ImageSlot, ParsedImageSlot } from './image-slots';
+import { ensureDisclaimers, findBannedPhrases } from '../style-profiles/style-guide';
+
+/**
+ * Ordered list of pipeline stages. A run always resumes from the first
+ * stage that has no checkpoint in pipeline_stage_results.
+ */
+export const PIPELINE_STAGES = [
+    'category',
+    'seoResearch',
+    'writing',
+    'humanizing',
+    'visualGeneration',
+    'interactive',
+    'finalReview',
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
 
 export interface PipelineResult {
+    runId: string;
     article: Article;
     stages: {
+        category: boolean;
         seoResearch: boolean;
         writing: boolean;
         humanizing: boolean;
@@ -14,351 +40,737 @@ export interface PipelineResult {
         finalReview: boolean;
     };
     errors: string[];
+    /** Image placeholders that didn't get an image and were removed from the article */
+    unfilledImageSlots: ImageSlot[];
 }
 
+export interface PipelineJobStatus {
+    id: string;
+    status: PipelineRun['status'];
+    topic: string;
+    articleId: string | null;
+    currentStage: string | null;
+    stages: PipelineResult['stages'];
+    errors: string[];
+    unfilledImageSlots: ImageSlot[];
+    createdAt: string;
+    updatedAt: string;
+    completedAt: string | null;
+}
+
+interface SeoData {
+    keywords: string[];
+    h2Structure: { h2: string; h3s: string[] }[];
+    metaDescription: string;
+}
+
+interface PipelineContext {
+    run: PipelineRun;
+    topic: string;
+    article: Article;
+    styleProfile: StyleProfile | null;
+    seoData?: SeoData;
+    title?: string;
+    content?: string;
+    imageSlots?: ImageSlot[];
+}
+
+/**
+ * Outcome of a single stage. `output` is persisted as the stage checkpoint
+ * and replayed into the context when a run is resumed.
+ */
+interface StageOutcome {
+    succeeded: boolean;
+    output: {
+        seoData?: SeoData;
+        title?: string;
+        content?: string;
+        imageSlots?: ImageSlot[];
+        [key: string]: unknown;
+    };
+    error?: string;
+}
+
+/**
+ * Config keys:
+ *   IMAGE_GENERATION_CONCURRENCY (images generated in parallel per article, default 2)
+ *   PIPELINE_STALE_RUN_MINUTES (minutes without progress before a running run may be resumed, default 15)
+ */
 @Injectable()
 export class PipelineService {
     private readonly logger = new Logger(PipelineService.name);
+    private readonly imageConcurrency: number;
+    private readonly staleRunMs: number;
 
     constructor(
+        private configService: ConfigService,
         private geminiService: GeminiService,
         private supabaseService: SupabaseService,
         private eventEmitter: EventEmitter2,
-    ) { }
+        private workflowService: ArticleWorkflowService,
+        private imagesService: ImagesService,
+    ) {
+        const configured = Number(this.configService.get<string>('IMAGE_GENERATION_CONCURRENCY'));
+        this.imageConcurrency = Number.isInteger(configured) && configured > 0 ? configured : 2;
+
+        const staleMinutes = Number(this.configService.get<string>('PIPELINE_STALE_RUN_MINUTES'));
+        this.staleRunMs = (Number.isInteger(staleMinutes) && staleMinutes > 0 ? staleMinutes : 15) * 60 * 1000;
+    }
 
     /**
      * Execute the complete content pipeline for a given topic
-     * Stages: SEO Research → Writing → Humanizing → Visual Gen → Interactive
+     * Stages: Category → SEO Research → Writing → Humanizing → Visual Gen → Interactive → Final Review
+     */
+    async executePipeline(topic: string, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+        const run = await this.supabaseService.createPipelineRun(topic, options);
+        return this.executeRun(run);
+    }
+
+    /**
+     * Record a new run in the queued state without starting it
+     */
+    async createQueuedRun(topic: string, options: PipelineRunOptions = {}): Promise<PipelineRun> {
+        return this.supabaseService.createPipelineRun(topic, options, 'queued');
+    }
+
+    /**
+     * Runs persisted as queued that have not started yet, oldest first
+     */
+    async getQueuedRuns(): Promise<PipelineRun[]> {
+        return this.supabaseService.getQueuedPipelineRuns();
+    }
+
+    /**
+     * Execute a previously queued run. Returns null if the run does not exist
+     * or has already been started elsewhere (resumed as stale, or picked up
+     * by another instance).
+     */
+    async executeQueuedRun(runId: string): Promise<PipelineResult | null> {
+        const claimed = await this.supabaseService.claimPipelineRun(runId, 'queued');
+        if (!claimed) {
+            this.logger.log(`Pipeline run ${runId} is no longer queued, skipping`);
+            return null;
+        }
+        return this.executeRun(claimed);
+    }
+
+    /**
+     * Resume a pipeline run from its first incomplete stage.
+     * Only failed runs, and queued or running runs that have made no progress
+     * for PIPELINE_STALE_RUN_MINUTES, can be resumed; anything else throws 409
+     * so the same stages never run twice at once.
+     * Returns null if the run does not exist.
+     */
+    async resumePipeline(runId: string): Promise<PipelineResult | null> {
+        const run = await this.supabaseService.getPipelineRun(runId);
+        if (!run) return null;
+
+        if (run.status === 'completed') {
+            this.logger.log(`Pipeline run ${runId} already completed, nothing to resume`);
+            return this.executeRun(run);
+        }
+
+        const staleBefore = run.status === 'failed'
+            ? undefined
+            : new Date(Date.now() - this.staleRunMs).toISOString();
+        const claimed = await this.supabaseService.claimPipelineRun(runId, run.status, staleBefore);
+        if (!claimed) {
+            throw new HttpException(
+                `Pipeline run ${runId} is ${run.status === 'failed' ? 'already being resumed' : `still ${run.status}`}`,
+                HttpStatus.CONFLICT,
+            );
+        }
+
+        this.logger.log(`Resuming pipeline run ${runId} (last stage: ${claimed.current_stage ?? 'none'})`);
+        return this.executeRun(claimed);
+    }
+
+    /**
+     * Get a pipeline run together with its stage checkpoints
+     */
+    async getRun(runId: string): Promise<{ run: PipelineRun; stages: PipelineStageResult[] } | null> {
+        const run = await this.supabaseService.getPipelineRun(runId);
+        if (!run) return null;
+
+        const stages = await this.supabaseService.getPipelineStageResults(runId);
+        return { run, stages };
+    }
+
+    /**
+     * Get the status of a pipeline job: current stage, per-stage results and errors
      */
-    async executePipeline(topic: string, author_id?: string): Promise<PipelineResult> {
+    async getJobStatus(runId: string): Promise<PipelineJobStatus | null> {
+        const found = await this.getRun(runId);
+        if (!found) return null;
+
+        const { run, stages } = found;
+        const stageFlags = this.createStageFlags();
+        for (const checkpoint of stages) {
+            stageFlags[checkpoint.stage as PipelineStage] = checkpoint.succeeded;
+        }
+
+        return {
+            id: run.id,
+            status: run.status,
+            topic: run.topic,
+            articleId: run.article_id,
+            currentStage: run.current_stage,
+            stages: stageFlags,
+            errors: run.errors || [],
+            unfilledImageSlots: this.unfilledImageSlots(stages),
+            createdAt: run.created_at,
+            updatedAt: run.updated_at,
+            completedAt: run.completed_at,
+        };
+    }
+
+    /**
+     * Run every stage that has no successful checkpoint yet, persisting each
+     * stage's output before moving on so the run can be resumed after a
+     * timeout. Stages that failed on an earlier attempt are tried again.
+     */
+    private async executeRun(run: PipelineRun): Promise<PipelineResult> {
+        const checkpoints = await this.supabaseService.getPipelineStageResults(run.id);
+        const completed = new Map(checkpoints.map(c => [c.stage, c]));
+
         const result: PipelineResult = {
+            runId: run.id,
             article: null as unknown as Article,
-            stages: {
-                seoResearch: false,
-                writing: false,
-                humanizing: false,
-                visualGeneration: false,
-                interactive: false,
-                finalReview: false,
-            },
-            errors: [],
+            stages: this.createStageFlags(),
+            errors: [...(run.errors || [])],
+            unfilledImageSlots: [],
         };
 
+        if (run.status === 'completed') {
+            for (const checkpoint of checkpoints) {
+                result.stages[checkpoint.stage as PipelineStage] = checkpoint.succeeded;
+            }
+            result.unfilledImageSlots = this.unfilledImageSlots(checkpoints);
+            if (run.article_id) {
+                result.article = (await this.supabaseService.getArticle(run.article_id)) as Article;
+            }
+            return result;
+        }
+
+        const topic = run.topic;
+
         try {
-            // Create article record
-            this.logger.log(`Starting pipeline for topic: "${topic}"`);
+            this.logger.log(`Starting pipeline for topic: "${topic}" (run ${run.id})`);
             this.eventEmitter.emit('pipeline.log', {
                 topic,
                 stage: 'seoResearch',
                 message: `Initializing pipeline for: ${topic}`,
             });
 
-            // Generate SEO slug first
-            let aiSlug: string | undefined;
-            try {
-                this.eventEmitter.emit('pipeline.log', {
-                    topic,
-                    stage: 'seoResearch',
-                    message: 'Suggesting SEO-friendly slug...',
-                });
-                aiSlug = await this.geminiService.suggestSlug(topic);
-                this.logger.log(`AI suggested slug: ${aiSlug}`);
-            } catch (slugError) {
-                this.logger.warn('AI slug generation failed, falling back to default', slugError);
-            }
-
-            result.article = await this.supabaseService.createArticle(topic, author_id, aiSlug);
+            run = await this.supabaseService.updatePipelineRun(run.id, { status: 'running' });
+            const promptVersions: Record<string, number> = {};
+            result.article = await runWithUsageContext(
+                { pipelineRunId: run.id, pipelineStage: 'slug', promptVersions },
+                () => this.ensureArticle(run),
+            );
+            run.article_id = result.article.id;
+            await this.recordPromptVersions(result.article.id, promptVersions);
+
+            const ctx: PipelineContext = {
+                run,
+                topic,
+                article: result.article,
+                styleProfile: await this.loadStyleProfile(run),
+            };
+
+            for (const stage of PIPELINE_STAGES) {
+                const checkpoint = completed.get(stage);
+                if (checkpoint?.succeeded) {
+                    this.logger.log(`Skipping stage ${stage}: checkpoint found`);
+                    this.applyCheckpoint(ctx, checkpoint.output);
+                    result.stages[stage] = true;
+                    continue;
+                }
+                if (checkpoint) {
+                    this.logger.log(`Retrying stage ${stage}: it failed on an earlier attempt`);
+                }
 
-            // ===== STAGE 0: CATEGORY ASSIGNMENT =====
-            this.logger.log('Stage 0: Category Assignment');
-            try {
-                // Get existing categories
-                const existingCategories = await this.supabaseService.getAllCategories();
-                const categoryNames = existingCategories.map(c => c.name);
+                await this.supabaseService.updatePipelineRun(run.id, { current_stage: stage });
 
-                // Ask Gemini to suggest a category
-                const categorySuggestion = await this.geminiService.suggestCategory(topic, categoryNames);
+                const outcome = await runWithUsageContext(
+                    { articleId: result.article.id, pipelineRunId: run.id, pipelineStage: stage },
+                    () => this.runStage(stage, ctx),
+                );
+                if (outcome.error) {
+                    result.errors.push(outcome.error);
+                }
 
-                // Find or create the category
-                const category = await this.supabaseService.findOrCreateCategory(
-                    categorySuggestion.categoryName,
-                    categorySuggestion.description
+                await this.supabaseService.savePipelineStageResult(
+                    run.id,
+                    stage,
+                    outcome.succeeded,
+                    outcome.output,
+                    outcome.error,
                 );
+                await this.supabaseService.updatePipelineRun(run.id, { errors: result.errors });
 
-                // Assign category to article
-                await this.supabaseService.updateArticleCategory(result.article.id, category.id);
-                this.logger.log(`Assigned category: ${category.name}`);
-            } catch (error) {
-                this.logger.warn('Category assignment failed, continuing without category', error);
-                result.errors.push(`Category assignment failed: ${error}`);
+                this.applyCheckpoint(ctx, outcome.output);
+                result.stages[stage] = outcome.succeeded;
             }
+            result.unfilledImageSlots = (ctx.imageSlots ?? []).filter(slot => slot.status !== 'filled');
 
-            // ===== STAGE 1: SEO RESEARCH =====
-            this.logger.log('Stage 1: SEO Research');
+            // Mark as ready for review
+            result.article = await this.workflowService.transition(result.article.id, 'review', {
+                actor: 'pipeline',
+                reason: `Pipeline run ${run.id} completed`,
+            }) ?? result.article;
+
+            await this.supabaseService.updatePipelineRun(run.id, {
+                status: 'completed',
+                current_stage: null,
+                errors: result.errors,
+                completed_at: new Date().toISOString(),
+            });
+
+            this.logger.log(`Pipeline complete for article: ${result.article.id}`);
             this.eventEmitter.emit('pipeline.log', {
                 topic,
-                stage: 'seoResearch',
-                message: 'Performing SEO research and keyword optimization...',
+                stage: 'finalReview',
+                message: 'Pipeline completed successfully. Article is ready for preview.',
             });
-            let seoData: { keywords: string[]; h2Structure: { h2: string; h3s: string[] }[]; metaDescription: string };
+
+        } catch (error) {
+            this.logger.error('Pipeline failed', error);
+            if (result.article?.id) {
+                try {
+                    await this.workflowService.transition(result.article.id, 'failed', {
+                        actor: 'pipeline',
+                        reason: `${error}`,
+                    });
+                } catch (statusError) {
+                    this.logger.error('Failed to mark article as failed', statusError);
+                }
+            }
+            result.errors.push(`Pipeline failed: ${error}`);
 
             try {
-                seoData = await this.geminiService.seoResearch(topic);
-                await this.supabaseService.updateArticle(result.article.id, {
-                    keywords: seoData.keywords,
-                    h2_structure: seoData.h2Structure,
-                    meta_description: seoData.metaDescription,
-                } as Partial<Article>);
-                result.stages.seoResearch = true;
-                this.logger.log(`SEO Research complete: ${seoData.keywords.length} keywords`);
-            } catch (error) {
-                result.errors.push(`SEO Research failed: ${error}`);
-                this.logger.error('SEO Research failed', error);
-                // Use fallback structure
-                seoData = {
-                    keywords: [topic],
-                    h2Structure: [{ h2: 'Introduction', h3s: [] }, { h2: 'Main Content', h3s: [] }, { h2: 'Conclusion', h3s: [] }],
-                    metaDescription: `Learn about ${topic}`,
-                };
+                await this.supabaseService.updatePipelineRun(run.id, {
+                    status: 'failed',
+                    errors: result.errors,
+                });
+            } catch (runError) {
+                this.logger.error('Failed to mark pipeline run as failed', runError);
             }
+        }
 
-            // ===== STAGE 2: LONG-FORM WRITING =====
-            this.logger.log('Stage 2: Long-form Writing');
-            this.eventEmitter.emit('pipeline.log', {
-                topic,
-                stage: 'writing',
-                message: 'Writing comprehensive article content (1200+ words)...',
-            });
-            let articleContent: { title: string; content: string };
+        return result;
+    }
 
-            try {
-                articleContent = await this.geminiService.writeArticle(
-                    topic,
-                    seoData.keywords,
-                    seoData.h2Structure,
-                );
-                await this.supabaseService.updateArticle(result.article.id, {
-                    title: articleContent.title,
-                    content_markdown: articleContent.content,
-                } as Partial<Article>);
-                result.stages.writing = true;
-                this.logger.log(`Writing complete: ${articleContent.content.length} chars`);
-            } catch (error) {
-                result.errors.push(`Writing failed: ${error}`);
-                this.logger.error('Writing failed', error);
-                throw new Error('Critical: Writing stage failed');
+    /**
+     * Unfilled image slots recorded in a run's visual generation checkpoint
+     */
+    private unfilledImageSlots(checkpoints: PipelineStageResult[]): ImageSlot[] {
+        const visual = checkpoints.find(checkpoint => checkpoint.stage === 'visualGeneration');
+        const slots = (visual?.output as StageOutcome['output'] | undefined)?.imageSlots ?? [];
+        return slots.filter(slot => slot.status !== 'filled');
+    }
+
+    private createStageFlags(): PipelineResult['stages'] {
+        return {
+            category: false,
+            seoResearch: false,
+            writing: false,
+            humanizing: false,
+            visualGeneration: false,
+            interactive: false,
+            finalReview: false,
+        };
+    }
+
+    /**
+     * Create the article record for a run, or reload it when resuming
+     */
+    private async ensureArticle(run: PipelineRun): Promise<Article> {
+        if (run.article_id) {
+            const existing = await this.supabaseService.getArticle(run.article_id);
+            if (!existing) {
+                throw new Error(`Article ${run.article_id} for pipeline run ${run.id} no longer exists`);
+            }
+            if (existing.status !== 'processing') {
+                return await this.workflowService.transition(existing.id, 'processing', {
+                    actor: 'pipeline',
+                    reason: `Resuming pipeline run ${run.id}`,
+                }) ?? existing;
             }
+            return existing;
+        }
 
-            // ===== STAGE 3: HUMANIZER =====
-            this.logger.log('Stage 3: Humanizing');
+        // Generate SEO slug first
+        let aiSlug: string | undefined;
+        try {
             this.eventEmitter.emit('pipeline.log', {
-                topic,
-                stage: 'humanizing',
-                message: 'Applying human-like tone and reducing AI patterns...',
+                topic: run.topic,
+                stage: 'seoResearch',
+                message: 'Suggesting SEO-friendly slug...',
             });
+            aiSlug = await this.geminiService.suggestSlug(run.topic);
+            this.logger.log(`AI suggested slug: ${aiSlug}`);
+        } catch (slugError) {
+            this.logger.warn('AI slug generation failed, falling back to default', slugError);
+        }
 
+        const article = await this.supabaseService.createArticle(
+            run.topic,
+            { author_id: run.author_id ?? undefined, locale: run.locale },
+            aiSlug,
+        );
+        await this.workflowService.recordCreated(article, 'pipeline');
+        await this.supabaseService.updatePipelineRun(run.id, { article_id: article.id });
+        return article;
+    }
+
+    /**
+     * Record the versions of prompts that ran before the article existed
+     */
+    private async recordPromptVersions(articleId: string, versions: Record<string, number>) {
+        for (const [key, version] of Object.entries(versions)) {
             try {
-                const humanizedContent = await this.geminiService.humanizeContent(articleContent.content);
-                await this.supabaseService.updateArticle(result.article.id, {
-                    content_markdown: humanizedContent,
-                } as Partial<Article>);
-                articleContent.content = humanizedContent;
-                result.stages.humanizing = true;
-                this.logger.log('Humanizing complete');
+                await this.supabaseService.setArticlePromptVersion(articleId, key, version);
             } catch (error) {
-                result.errors.push(`Humanizing failed: ${error}`);
-                this.logger.error('Humanizing failed', error);
-                // Continue with original content
+                this.logger.warn(`Failed to record prompt "${key}" version for article ${articleId}`, error);
             }
+        }
+    }
 
-            // ===== STAGE 4: VISUAL GENERATION =====
-            this.logger.log('Stage 4: Visual Generation');
+    /**
+     * The run's style profile; a profile deleted since the run was queued is skipped
+     */
+    private async loadStyleProfile(run: PipelineRun): Promise<StyleProfile | null> {
+        if (!run.style_profile_id) return null;
 
-            try {
-                // Generate Thumbnail First
-                this.logger.log('Generating article thumbnail...');
-                try {
-                    const thumbnailPrompt = `Clean, modern, minimalist thumbnail illustration for a blog article about: ${topic}`;
-                    const thumbBuffer = await this.geminiService.generateImage(thumbnailPrompt);
-
-                    if (thumbBuffer) {
-                        const thumbUrl = await this.supabaseService.uploadImage(
-                            result.article.id,
-                            thumbBuffer,
-                            'thumbnail.png',
-                        );
-
-                        // Update article with thumbnail URL
-                        await this.supabaseService.updateArticle(result.article.id, {
-                            thumbnail_url: thumbUrl,
-                        } as Partial<Article>);
-                        this.logger.log('Thumbnail generated and saved');
-                    }
-                } catch (thumbError) {
-                    this.logger.warn('Failed to generate thumbnail', thumbError);
-                }
+        const profile = await this.supabaseService.getStyleProfile(run.style_profile_id);
+        if (!profile) {
+            this.logger.warn(`Style profile ${run.style_profile_id} for run ${run.id} no longer exists, using the default voice`);
+        }
+        return profile;
+    }
 
-                this.eventEmitter.emit('pipeline.log', {
-                    topic,
-                    stage: 'visualGeneration',
-                    message: 'Generating related image prompts and assets...',
-                });
+    private writingOptions(ctx: PipelineContext): WritingOptions {
+        return { style: ctx.styleProfile, locale: ctx.run.locale };
+    }
 
-                const imagePrompts = this.geminiService.extractImagePrompts(articleContent.content);
-                this.logger.log(`Found ${imagePrompts.length} image prompts`);
+    /**
+     * Replay a stage checkpoint into the running context
+     */
+    private applyCheckpoint(ctx: PipelineContext, output: StageOutcome['output'] | Record<string, unknown>) {
+        const { seoData, title, content, imageSlots } = output as StageOutcome['output'];
+        if (seoData) ctx.seoData = seoData;
+        if (title) ctx.title = title;
+        if (content) ctx.content = content;
+        if (imageSlots) ctx.imageSlots = imageSlots;
+    }
 
-                for (let i = 0; i < Math.min(imagePrompts.length, 3); i++) {
-                    const { prompt, placeholder } = imagePrompts[i];
-                    this.logger.log(`Processing image ${i + 1}: "${prompt.substring(0, 50)}..."`);
+    private runStage(stage: PipelineStage, ctx: PipelineContext): Promise<StageOutcome> {
+        switch (stage) {
+            case 'category':
+                return this.runCategoryStage(ctx);
+            case 'seoResearch':
+                return this.runSeoResearchStage(ctx);
+            case 'writing':
+                return this.runWritingStage(ctx);
+            case 'humanizing':
+                return this.runHumanizingStage(ctx);
+            case 'visualGeneration':
+                return this.runVisualStage(ctx);
+            case 'interactive':
+                return this.runInteractiveStage(ctx);
+            case 'finalReview':
+                return this.runFinalReviewStage(ctx);
+        }
+    }
 
-                    const imageRecord = await this.supabaseService.createArticleImage(
-                        result.article.id,
-                        prompt,
-                        i + 1,
-                    );
+    // ===== STAGE 0: CATEGORY ASSIGNMENT =====
+    private async runCategoryStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 0: Category Assignment');
+        try {
+            // Get existing categories
+            const existingCategories = await this.supabaseService.getAllCategories();
+            const categoryNames = existingCategories.map(c => c.name);
+
+            // Ask Gemini to suggest a category
+            const categorySuggestion = await this.geminiService.suggestCategory(ctx.topic, categoryNames);
+
+            // Find or create the category
+            const category = await this.supabaseService.findOrCreateCategory(
+                categorySuggestion.categoryName,
+                categorySuggestion.description
+            );
+
+            // Assign category to article
+            await this.supabaseService.updateArticleCategory(ctx.article.id, category.id);
+            this.logger.log(`Assigned category: ${category.name}`);
+            return { succeeded: true, output: { categoryId: category.id } };
+        } catch (error) {
+            this.logger.warn('Category assignment failed, continuing without category', error);
+            return { succeeded: false, output: {}, error: `Category assignment failed: ${error}` };
+        }
+    }
 
-                    try {
-                        // Pass the unique section-specific prompt
-                        const imageBuffer = await this.geminiService.generateImage(prompt);
-
-                        if (imageBuffer) {
-                            const imageUrl = await this.supabaseService.uploadImage(
-                                result.article.id,
-                                imageBuffer,
-                                `image-${i + 1}.png`,
-                            );
-                            await this.supabaseService.updateImageUrl(imageRecord.id, imageUrl);
-
-                            // Generate SEO Alt Tag using Gemini
-                            const altTag = await this.geminiService.generateAltTags(prompt, topic);
-                            this.logger.log(`Generated alt tag for image ${i + 1}: "${altTag}"`);
-
-                            // Replace the specific placeholder and any trailing garbage (comments or colon prompts)
-                            const escapedPlaceholder = placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-                            // Regex to catch:
-                            // [IMAGE_PROMPT_1] <!-- comments -->
-                            // [IMAGE_PROMPT_1]: Prompt text
-                            // [IMAGE_PROMPT_1] Prompt text (if short enough)
-                            const fullPlaceholderRegex = new RegExp(
-                                escapedPlaceholder +
-                                '(?:\\s*:\\s*[^\\n\\!]+|\\s*<!--[\\s\\S]*?-->|\\s*(?=[A-Z]))?',
-                                'g'
-                            );
-
-                            // Use the generated alt tag in the markdown link
-                            const imageMarkdown = `\n\n![${altTag}](${imageUrl})\n\n`;
-
-                            articleContent.content = articleContent.content.replace(
-                                fullPlaceholderRegex,
-                                imageMarkdown
-                            );
-
-                            this.logger.log(`Replaced placeholder ${placeholder} with image`);
-                        }
-                    } catch (imgError) {
-                        this.logger.warn(`Failed to generate image ${i + 1}`, imgError);
-                    }
-                }
+    // ===== STAGE 1: SEO RESEARCH =====
+    private async runSeoResearchStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 1: SEO Research');
+        this.eventEmitter.emit('pipeline.log', {
+            topic: ctx.topic,
+            stage: 'seoResearch',
+            message: 'Performing SEO research and keyword optimization...',
+        });
 
-                // Final cleanup: Remove any remaining [IMAGE_PROMPT_N] placeholders or prompt text 
-                // that didn't get replaced (e.g. if we only generated 3 images but 5 were requested)
-                articleContent.content = articleContent.content.replace(
-                    /\[IMAGE_PROMPT_\d+\](?:\s*:\s*[^n\!]+|\s*<!--[\s\S]*?-->|\s*(?=[A-Z]))?/g,
-                    ''
-                ).trim();
+        try {
+            const seoData = await this.geminiService.seoResearch(ctx.topic, this.writingOptions(ctx));
+            await this.supabaseService.updateArticle(ctx.article.id, {
+                keywords: seoData.keywords,
+                h2_structure: seoData.h2Structure,
+                meta_description: seoData.metaDescription,
+            } as Partial<Article>);
+            this.logger.log(`SEO Research complete: ${seoData.keywords.length} keywords`);
+            return { succeeded: true, output: { seoData } };
+        } catch (error) {
+            this.logger.error('SEO Research failed', error);
+            // Use fallback structure
+            const seoData: SeoData = {
+                keywords: [ctx.topic],
+                h2Structure: [{ h2: 'Introduction', h3s: [] }, { h2: 'Main Content', h3s: [] }, { h2: 'Conclusion', h3s: [] }],
+                metaDescription: `Learn about ${ctx.topic}`,
+            };
+            return { succeeded: false, output: { seoData }, error: `SEO Research failed: ${error}` };
+        }
+    }
 
-                // Update content with image URLs
-                await this.supabaseService.updateArticle(result.article.id, {
-                    content_markdown: articleContent.content,
-                } as Partial<Article>);
+    // ===== STAGE 2: LONG-FORM WRITING =====
+    private async runWritingStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 2: Long-form Writing');
+        this.eventEmitter.emit('pipeline.log', {
+            topic: ctx.topic,
+            stage: 'writing',
+            message: 'Writing comprehensive article content (1200+ words)...',
+        });
 
-                result.stages.visualGeneration = true;
-                this.logger.log('Visual generation complete');
-            } catch (error) {
-                result.errors.push(`Visual generation failed: ${error}`);
-                this.logger.error('Visual generation failed', error);
-            }
+        const seoData = ctx.seoData as SeoData;
 
-            // ===== STAGE 5: INTERACTIVE COMPONENT =====
-            this.logger.log('Stage 5: Interactive Component');
-            this.eventEmitter.emit('pipeline.log', {
-                topic,
-                stage: 'interactive',
-                message: 'Analyzing content for interactive opportunities...',
-            });
+        try {
+            const articleContent = await this.geminiService.writeArticle(
+                ctx.topic,
+                seoData.keywords,
+                seoData.h2Structure,
+                this.writingOptions(ctx),
+            );
+            await this.supabaseService.updateArticle(ctx.article.id, {
+                title: articleContent.title,
+                content_markdown: articleContent.content,
+            } as Partial<Article>, 'pipeline:writing');
+            this.logger.log(`Writing complete: ${articleContent.content.length} chars`);
+            return { succeeded: true, output: { title: articleContent.title, content: articleContent.content } };
+        } catch (error) {
+            this.logger.error('Writing failed', error);
+            // No checkpoint is saved, so a resumed run retries this stage
+            throw new Error(`Critical: Writing stage failed: ${error}`);
+        }
+    }
 
-            try {
-                const component = await this.geminiService.generateInteractiveComponent(
-                    topic,
-                    articleContent.content,
-                );
+    // ===== STAGE 3: HUMANIZER =====
+    private async runHumanizingStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 3: Humanizing');
+        this.eventEmitter.emit('pipeline.log', {
+            topic: ctx.topic,
+            stage: 'humanizing',
+            message: 'Applying human-like tone and reducing AI patterns...',
+        });
+
+        try {
+            const humanizedContent = await this.geminiService.humanizeContent(ctx.content as string, this.writingOptions(ctx));
+            await this.supabaseService.updateArticle(ctx.article.id, {
+                content_markdown: humanizedContent,
+            } as Partial<Article>, 'pipeline:humanizing');
+            this.logger.log('Humanizing complete');
+            return { succeeded: true, output: { content: humanizedContent } };
+        } catch (error) {
+            this.logger.error('Humanizing failed', error);
+            // Continue with original content
+            return { succeeded: false, output: {}, error: `Humanizing failed: ${error}` };
+        }
+    }
+
+    // ===== STAGE 4: VISUAL GENERATION =====
+    private async runVisualStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 4: Visual Generation');
+        const topic = ctx.topic;
+        let content = ctx.content as string;
 
-                if (component) {
-                    await this.supabaseService.createComponent(
-                        result.article.id,
-                        component.type,
-                        component.config,
+        try {
+            // Clear images left behind by an interrupted attempt at this stage
+            await this.supabaseService.deleteArticleImages(ctx.article.id);
+
+            // Generate Thumbnail First
+            this.logger.log('Generating article thumbnail...');
+            try {
+                const thumbnailPrompt = `Clean, modern, minimalist thumbnail illustration for a blog article about: ${topic}`;
+                const thumbBuffer = await this.geminiService.generateImage(thumbnailPrompt);
+
+                if (thumbBuffer) {
+                    const { storage_url, ...thumbnailImage } = await this.imagesService.upload(
+                        ctx.article.id,
+                        thumbBuffer,
+                        'thumbnail',
                     );
-                    this.logger.log(`Created ${component.type} component`);
-                } else {
-                    this.logger.log('No interactive component needed');
+
+                    // Update article with thumbnail URL
+                    await this.supabaseService.updateArticle(ctx.article.id, {
+                        thumbnail_url: storage_url,
+                        thumbnail_image: thumbnailImage,
+                    } as Partial<Article>);
+                    this.logger.log('Thumbnail generated and saved');
                 }
-                result.stages.interactive = true;
-            } catch (error) {
-                result.errors.push(`Interactive component failed: ${error}`);
-                this.logger.error('Interactive component failed', error);
+            } catch (thumbError) {
+                this.logger.warn('Failed to generate thumbnail', thumbError);
             }
 
-            // ===== STAGE 6: FINAL REVIEW AND RESTRUCTURE =====
-            this.logger.log('Stage 6: Final Review and Restructure');
             this.eventEmitter.emit('pipeline.log', {
                 topic,
-                stage: 'finalReview',
-                message: 'Performing final quality check and restructuring...',
+                stage: 'visualGeneration',
+                message: 'Generating related image prompts and assets...',
             });
 
-            try {
-                const reviewedContent = await this.geminiService.finalReviewAndRestructure(
-                    articleContent.content,
-                    topic,
-                );
+            const parsed = parseImageSlots(content);
+            const slots = parsed.slots;
+            this.logger.log(`Found ${slots.length} image placeholders`);
 
-                await this.supabaseService.updateArticle(result.article.id, {
-                    content_markdown: reviewedContent,
-                } as Partial<Article>);
+            await this.fillImageSlots(ctx, slots);
+            content = applyImageSlots(parsed.markdown, slots);
 
-                articleContent.content = reviewedContent;
-                result.stages.finalReview = true;
-                this.logger.log('Final review complete');
-            } catch (error) {
-                result.errors.push(`Final review failed: ${error}`);
-                this.logger.error('Final review failed', error);
-                // Continue with existing content if review fails
+            const unfilled = slots.filter(slot => slot.status !== 'filled');
+            if (unfilled.length > 0) {
+                this.logger.warn(`${unfilled.length} of ${slots.length} image placeholders were left without an image`);
             }
 
-            // Mark as ready for review
-            result.article = await this.supabaseService.updateArticle(result.article.id, {
-                status: 'review',
-            } as Partial<Article>);
+            // Update content with image URLs
+            await this.supabaseService.updateArticle(ctx.article.id, {
+                content_markdown: content,
+            } as Partial<Article>, 'pipeline:visualGeneration');
 
-            this.logger.log(`Pipeline complete for article: ${result.article.id}`);
-            this.eventEmitter.emit('pipeline.log', {
-                topic,
-                stage: 'finalReview',
-                message: 'Pipeline completed successfully. Article is ready for preview.',
-            });
+            this.logger.log('Visual generation complete');
+            return { succeeded: true, output: { content, imageSlots: slots.map(toImageSlot) } };
+        } catch (error) {
+            this.logger.error('Visual generation failed', error);
+            return { succeeded: false, output: {}, error: `Visual generation failed: ${error}` };
+        }
+    }
+
+    /**
+     * Generate an image for every slot, at most IMAGE_GENERATION_CONCURRENCY at a time.
+     * Slots are updated in place with their outcome; failures never throw.
+     */
+    private async fillImageSlots(ctx: PipelineContext, slots: ParsedImageSlot[]) {
+        let next = 0;
+        const worker = async () => {
+            while (next < slots.length) {
+                await this.fillImageSlot(ctx, slots[next++]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this.imageConcurrency, slots.length) }, worker));
+    }
 
+    private async fillImageSlot(ctx: PipelineContext, slot: ParsedImageSlot) {
+        this.logger.log(`Processing image ${slot.position} (${slot.placeholder}): "${slot.prompt.substring(0, 50)}..."`);
+
+        try {
+            const imageBuffer = await this.geminiService.generateImage(slot.prompt);
+            if (!imageBuffer) {
+                slot.status = 'failed';
+                slot.error = 'Image generation returned no image';
+                return;
+            }
+
+            const stored = await this.imagesService.upload(ctx.article.id, imageBuffer, `image-${slot.position}`);
+            const imageRecord = await this.supabaseService.createArticleImage(ctx.article.id, slot.prompt, slot.position);
+            await this.supabaseService.updateArticleImage(imageRecord.id, stored);
+
+            // Generate SEO Alt Tag using Gemini
+            slot.alt = await this.geminiService.generateAltTags(slot.prompt, ctx.topic, ctx.run.locale);
+            slot.imageUrl = stored.storage_url;
+            slot.status = 'filled';
+            this.logger.log(`Generated image ${slot.position} with alt tag: "${slot.alt}"`);
         } catch (error) {
-            this.logger.error('Pipeline failed', error);
-            if (result.article?.id) {
-                await this.supabaseService.updateArticle(result.article.id, {
-                    status: 'draft',
-                } as Partial<Article>);
+            this.logger.warn(`Failed to generate image ${slot.position}`, error);
+            slot.status = 'failed';
+            slot.error = `${error}`;
+        }
+    }
+
+    // ===== STAGE 5: INTERACTIVE COMPONENT =====
+    private async runInteractiveStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 5: Interactive Component');
+        this.eventEmitter.emit('pipeline.log', {
+            topic: ctx.topic,
+            stage: 'interactive',
+            message: 'Analyzing content for interactive opportunities...',
+        });
+
+        try {
+            // Clear components left behind by an interrupted attempt at this stage
+            await this.supabaseService.deleteArticleComponents(ctx.article.id);
+
+            const component = await this.geminiService.generateInteractiveComponent(
+                ctx.topic,
+                ctx.content as string,
+                this.writingOptions(ctx),
+            );
+
+            if (component) {
+                await this.supabaseService.createComponent(
+                    ctx.article.id,
+                    component.type,
+                    component.config,
+                );
+                this.logger.log(`Created ${component.type} component`);
+            } else {
+                this.logger.log('No interactive component needed');
             }
-            result.errors.push(`Pipeline failed: ${error}`);
+            return { succeeded: true, output: { componentType: component?.type ?? null } };
+        } catch (error) {
+            this.logger.error('Interactive component failed', error);
+            return { succeeded: false, output: {}, error: `Interactive component failed: ${error}` };
         }
+    }
 
-        return result;
+    // ===== STAGE 6: FINAL REVIEW AND RESTRUCTURE =====
+    private async runFinalReviewStage(ctx: PipelineContext): Promise<StageOutcome> {
+        this.logger.log('Stage 6: Final Review and Restructure');
+        this.eventEmitter.emit('pipeline.log', {
+            topic: ctx.topic,
+            stage: 'finalReview',
+            message: 'Performing final quality check and restructuring...',
+        });
+
+        try {
+            let reviewedContent = await this.geminiService.finalReviewAndRestructure(
+                ctx.content as string,
+                ctx.topic,
+                this.writingOptions(ctx),
+            );
+
+            if (ctx.styleProfile) {
+                reviewedContent = ensureDisclaimers(reviewedContent, ctx.styleProfile.required_disclaimers);
+                const banned = findBannedPhrases(reviewedContent, ctx.styleProfile.banned_phrases);
+                if (banned.length > 0) {
+                    this.logger.warn(`Article ${ctx.article.id} still uses banned phrases: ${banned.join(', ')}`);
+                }
+            }
+
+            await this.supabaseService.updateArticle(ctx.article.id, {
+                content_markdown: reviewedContent,
+            } as Partial<Article>, 'pipeline:finalReview');
+
+            this.logger.log('Final review complete');
+            return { succeeded: true, output: { content: reviewedContent } };
+        } catch (error) {
+            this.logger.error('Final review failed', error);
+            // Continue with existing content if review fails
+            return { succeeded: false, output: {}, error: `Final review failed: ${error}` };
+        }
     }
 }
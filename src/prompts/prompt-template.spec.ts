@@ -0,0 +1,22 @@
+import { renderTemplate, templateVariables } from './prompt-template';
+import { DEFAULT_PROMPTS, PROMPT_KEYS } from './default-prompts';
+
+describe('prompt templates', () => {
+    it('substitutes variables and blanks the ones without a value', () => {
+        const template = 'Write about {{ topic }} using {{keywords}}.{{missing}} Avoid {{topic}} clichés.';
+
+        expect(renderTemplate(template, { topic: 'Rust', keywords: 'ownership, borrowing' }))
+            .toBe('Write about Rust using ownership, borrowing. Avoid Rust clichés.');
+    });
+
+    it('lists each variable once and ignores JSON braces', () => {
+        expect(templateVariables('{{topic}} {"type": null} {{ keywords }} {{topic}}')).toEqual(['topic', 'keywords']);
+    });
+
+    it('only uses declared variables in the built-in prompts', () => {
+        for (const key of PROMPT_KEYS) {
+            const { template, variables } = DEFAULT_PROMPTS[key];
+            expect(templateVariables(template).filter(name => !variables.includes(name))).toEqual([]);
+        }
+    });
+});
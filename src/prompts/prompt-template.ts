@@ -0,0 +1,15 @@
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Names of the `{{variables}}` a template references, in order of first use
+ */
+export function templateVariables(template: string): string[] {
+    return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+/**
+ * Substitute `{{variables}}`; variables without a value render as empty strings
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(VARIABLE_PATTERN, (_match, name: string) => variables[name] ?? '');
+}
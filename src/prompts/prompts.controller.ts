@@ -0,0 +1,61 @@
+import { Controller, Get, Put, Body, Param, HttpException, HttpStatus } from '@nestjs/common';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { PromptsService } from './prompts.service';
+import type { PromptKey } from './default-prompts';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { EDITORIAL_ROLES } from '../auth/roles';
+import type { AuthenticatedUser } from '../auth/roles';
+
+class UpdatePromptDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20000)
+    template: string;
+}
+
+@Controller('prompts')
+export class PromptsController {
+    constructor(private readonly promptsService: PromptsService) { }
+
+    /**
+     * GET /api/prompts
+     * Active version of every prompt template
+     */
+    @Get()
+    @Roles(...EDITORIAL_ROLES)
+    async listPrompts() {
+        return { success: true, data: await this.promptsService.list() };
+    }
+
+    /**
+     * GET /api/prompts/:key
+     * A prompt template with its version history
+     */
+    @Get(':key')
+    @Roles(...EDITORIAL_ROLES)
+    async getPrompt(@Param('key') key: string) {
+        return { success: true, data: await this.promptsService.get(this.promptKey(key)) };
+    }
+
+    /**
+     * PUT /api/prompts/:key
+     * Save a new version of a prompt template; it is used from the next generation on
+     */
+    @Put(':key')
+    @Roles(...EDITORIAL_ROLES)
+    async updatePrompt(
+        @Param('key') key: string,
+        @Body() dto: UpdatePromptDto,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        const prompt = await this.promptsService.update(this.promptKey(key), dto.template, user.id);
+        return { success: true, data: prompt, message: `Saved version ${prompt.version} of "${prompt.key}"` };
+    }
+
+    private promptKey(key: string): PromptKey {
+        if (!this.promptsService.isPromptKey(key)) {
+            throw new HttpException('Prompt not found', HttpStatus.NOT_FOUND);
+        }
+        return key;
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PromptsService } from './prompts.service';
+import { PromptsController } from './prompts.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+    imports: [SupabaseModule, AuthModule],
+    controllers: [PromptsController],
+    providers: [PromptsService],
+    exports: [PromptsService],
+})
+export class PromptsModule { }
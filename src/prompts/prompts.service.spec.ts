@@ -0,0 +1,89 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { PromptsService } from './prompts.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { runWithUsageContext } from '../usage/usage-context';
+
+describe('PromptsService', () => {
+    const createService = (latest: { template: string; version: number } | null) => {
+        const supabase = {
+            getLatestPromptTemplate: jest.fn().mockResolvedValue(latest),
+            createPromptTemplateVersion: jest.fn().mockImplementation(entry => Promise.resolve({
+                id: 'prompt-1',
+                created_at: '2026-01-01T00:00:00.000Z',
+                ...entry,
+            })),
+            setArticlePromptVersion: jest.fn().mockResolvedValue(undefined),
+        };
+        return { service: new PromptsService(supabase as unknown as SupabaseService), supabase };
+    };
+
+    it('renders the saved version and records it on the article being worked on', async () => {
+        const { service, supabase } = createService({ template: 'Write about {{topic}}.', version: 3 });
+
+        const rendered = await runWithUsageContext(
+            { articleId: 'article-1' },
+            () => service.render('seo', { topic: 'Rust' }),
+        );
+
+        expect(rendered).toBe('Write about Rust.');
+        expect(supabase.setArticlePromptVersion).toHaveBeenCalledWith('article-1', 'seo', 3);
+    });
+
+    it('collects versions of prompts rendered before the article exists', async () => {
+        const { service, supabase } = createService({ template: 'Suggest a slug.', version: 2 });
+        const promptVersions: Record<string, number> = {};
+
+        await runWithUsageContext({ pipelineRunId: 'run-1', promptVersions }, () => service.render('slug'));
+
+        expect(promptVersions).toEqual({ slug: 2 });
+        expect(supabase.setArticlePromptVersion).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the built-in prompt when none was saved', async () => {
+        const { service } = createService(null);
+
+        await expect(service.render('slug')).resolves.toContain('You are an SEO expert');
+    });
+
+    it('saves edits as the next version', async () => {
+        const { service, supabase } = createService({ template: 'old', version: 2 });
+
+        const saved = await service.update('writing', 'Write about {{topic}} for beginners.', 'editor-1');
+
+        expect(saved).toMatchObject({ key: 'writing', version: 3, is_default: false, updated_by: 'editor-1' });
+        expect(supabase.createPromptTemplateVersion).toHaveBeenCalledWith({
+            key: 'writing',
+            version: 3,
+            template: 'Write about {{topic}} for beginners.',
+            created_by: 'editor-1',
+        });
+    });
+
+    it('takes the next version when a concurrent edit claimed the same number', async () => {
+        const { service, supabase } = createService(null);
+        supabase.getLatestPromptTemplate
+            .mockResolvedValueOnce({ template: 'old', version: 2 })
+            .mockResolvedValueOnce({ template: 'theirs', version: 3 });
+        supabase.createPromptTemplateVersion.mockRejectedValueOnce({ code: '23505', message: 'duplicate key value' });
+
+        const saved = await service.update('writing', 'Mine', 'editor-1');
+
+        expect(saved.version).toBe(4);
+        expect(supabase.createPromptTemplateVersion).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up with 409 when the version keeps being taken', async () => {
+        const { service, supabase } = createService({ template: 'old', version: 2 });
+        supabase.createPromptTemplateVersion.mockRejectedValue({ code: '23505', message: 'duplicate key value' });
+
+        await expect(service.update('writing', 'Mine', 'editor-1')).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+        expect(supabase.createPromptTemplateVersion).toHaveBeenCalledTimes(3);
+    });
+
+    it('rejects variables the prompt does not provide', async () => {
+        const { service, supabase } = createService(null);
+
+        await expect(service.update('humanizing', 'Humanize {{content}}', 'editor-1')).rejects.toBeInstanceOf(HttpException);
+        expect(supabase.createPromptTemplateVersion).not.toHaveBeenCalled();
+    });
+});
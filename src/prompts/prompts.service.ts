@@ -0,0 +1,167 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { PromptTemplateVersion } from '../supabase/supabase.service';
+import { getUsageContext } from '../usage/usage-context';
+import { DEFAULT_PROMPTS, PROMPT_KEYS } from './default-prompts';
+import type { PromptKey } from './default-prompts';
+import { renderTemplate, templateVariables } from './prompt-template';
+
+/** Version reported for prompts that still use the built-in default */
+export const BUILT_IN_PROMPT_VERSION = 0;
+
+const PROMPT_CACHE_TTL_MS = 60 * 1000;
+
+/** Attempts to save a new version when concurrent edits claim the same number */
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface PromptSummary {
+    key: PromptKey;
+    description: string;
+    variables: string[];
+    version: number;
+    template: string;
+    is_default: boolean;
+    updated_by: string | null;
+    updated_at: string | null;
+}
+
+interface ActivePrompt {
+    template: string;
+    version: number;
+}
+
+/**
+ * Registry of the system prompts used by the LLM stages. Saving a prompt
+ * stores a new version, and the newest version is the active one; prompts
+ * that were never saved use the built-in default. Rendering a prompt while
+ * working on an article records its version in the article's prompt_versions;
+ * before the article exists it is collected in the usage context's
+ * promptVersions for the caller to record.
+ */
+@Injectable()
+export class PromptsService {
+    private readonly logger = new Logger(PromptsService.name);
+    private readonly cache = new Map<PromptKey, { prompt: ActivePrompt; expiresAt: number }>();
+
+    constructor(private supabaseService: SupabaseService) { }
+
+    isPromptKey(key: string): key is PromptKey {
+        return (PROMPT_KEYS as readonly string[]).includes(key);
+    }
+
+    /**
+     * The active version of every prompt
+     */
+    async list(): Promise<PromptSummary[]> {
+        const saved = await this.supabaseService.getAllPromptTemplates();
+        return PROMPT_KEYS.map(key => this.summarize(key, saved.find(version => version.key === key) ?? null));
+    }
+
+    /**
+     * The active version of a prompt together with every saved version, newest first
+     */
+    async get(key: PromptKey): Promise<PromptSummary & { versions: PromptTemplateVersion[] }> {
+        const versions = await this.supabaseService.getPromptTemplateVersions(key);
+        return { ...this.summarize(key, versions[0] ?? null), versions };
+    }
+
+    /**
+     * Save a new version of a prompt, which becomes the active one.
+     * Rejects templates that use variables the prompt doesn't provide.
+     */
+    async update(key: PromptKey, template: string, userId: string): Promise<PromptSummary> {
+        const { variables } = DEFAULT_PROMPTS[key];
+        const unknown = templateVariables(template).filter(name => !variables.includes(name));
+        if (unknown.length > 0) {
+            throw new HttpException(
+                `Unknown variables: ${unknown.join(', ')}. Available: ${variables.join(', ') || 'none'}`,
+                HttpStatus.BAD_REQUEST,
+            );
+        }
+
+        const saved = await this.saveNextVersion(key, template, userId);
+
+        this.cache.delete(key);
+        this.logger.log(`Saved version ${saved.version} of prompt "${key}"`);
+        return this.summarize(key, saved);
+    }
+
+    /**
+     * Render the active version of a prompt. If the saved prompts can't be
+     * loaded the built-in default is used, so a storage error never fails a generation.
+     */
+    async render(key: PromptKey, variables: Record<string, string> = {}): Promise<string> {
+        const prompt = await this.getActive(key);
+
+        const { articleId, promptVersions } = getUsageContext();
+        if (articleId) {
+            await this.recordVersion(articleId, key, prompt.version);
+        } else if (promptVersions) {
+            promptVersions[key] = prompt.version;
+        }
+
+        return renderTemplate(prompt.template, variables);
+    }
+
+    /**
+     * Insert the version after the latest one. The unique (key, version) index
+     * rejects a number a concurrent edit took first, in which case try the next.
+     */
+    private async saveNextVersion(key: PromptKey, template: string, userId: string): Promise<PromptTemplateVersion> {
+        for (let attempt = 1; ; attempt++) {
+            const latest = await this.supabaseService.getLatestPromptTemplate(key);
+            try {
+                return await this.supabaseService.createPromptTemplateVersion({
+                    key,
+                    version: (latest?.version ?? BUILT_IN_PROMPT_VERSION) + 1,
+                    template,
+                    created_by: userId,
+                });
+            } catch (error) {
+                if ((error as { code?: string }).code !== '23505') throw error; // Unique violation
+                if (attempt >= MAX_SAVE_ATTEMPTS) {
+                    throw new HttpException(`Prompt "${key}" is being edited concurrently, try again`, HttpStatus.CONFLICT);
+                }
+            }
+        }
+    }
+
+    private async getActive(key: PromptKey): Promise<ActivePrompt> {
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > Date.now()) return cached.prompt;
+
+        try {
+            const latest = await this.supabaseService.getLatestPromptTemplate(key);
+            const prompt = latest
+                ? { template: latest.template, version: latest.version }
+                : { template: DEFAULT_PROMPTS[key].template, version: BUILT_IN_PROMPT_VERSION };
+            this.cache.set(key, { prompt, expiresAt: Date.now() + PROMPT_CACHE_TTL_MS });
+            return prompt;
+        } catch (error) {
+            this.logger.warn(`Failed to load prompt "${key}", using the built-in default`, error);
+            return { template: DEFAULT_PROMPTS[key].template, version: BUILT_IN_PROMPT_VERSION };
+        }
+    }
+
+    private async recordVersion(articleId: string, key: PromptKey, version: number) {
+        try {
+            await this.supabaseService.setArticlePromptVersion(articleId, key, version);
+        } catch (error) {
+            this.logger.warn(`Failed to record prompt "${key}" version for article ${articleId}`, error);
+        }
+    }
+
+    private summarize(key: PromptKey, saved: PromptTemplateVersion | null): PromptSummary {
+        const { description, variables, template } = DEFAULT_PROMPTS[key];
+        return {
+            key,
+            description,
+            variables,
+            version: saved?.version ?? BUILT_IN_PROMPT_VERSION,
+            template: saved?.template ?? template,
+            is_default: !saved,
+            updated_by: saved?.created_by ?? null,
+            updated_at: saved?.created_at ?? null,
+        };
+    }
+}
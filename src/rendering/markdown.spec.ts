@@ -0,0 +1,62 @@
+import { renderArticleMarkdown } from './markdown';
+
+describe('renderArticleMarkdown', () => {
+    it('renders callouts as labelled asides', () => {
+        const { html } = renderArticleMarkdown('> 💡 **Pro Tip:** Cache the *lexer* output.\n\n> ⚠️ **Watch Out:** Mind the gap.\n\n> Plain quote');
+
+        expect(html).toContain('<aside class="callout callout-tip" aria-label="Pro Tip">');
+        expect(html).toContain('<p class="callout-title">Pro Tip</p>\n<p>Cache the <em>lexer</em> output.</p>');
+        expect(html).toContain('<aside class="callout callout-warning" aria-label="Watch Out">');
+        expect(html).toContain('<blockquote>\n<p>Plain quote</p>\n</blockquote>');
+    });
+
+    it('anchors headings and nests H3s under their H2 in the toc', () => {
+        const { html, toc } = renderArticleMarkdown('# Title\n\n## Getting `started`\n\n### Install\n\n## Getting started\n\n### Café & more');
+
+        expect(html).toContain('<h2 id="getting-started">Getting <code>started</code></h2>');
+        expect(html).toContain('<h2 id="getting-started-1">');
+        expect(toc).toEqual([
+            {
+                id: 'getting-started',
+                text: 'Getting started',
+                level: 2,
+                children: [{ id: 'install', text: 'Install', level: 3, children: [] }],
+            },
+            {
+                id: 'getting-started-1',
+                text: 'Getting started',
+                level: 2,
+                children: [{ id: 'cafe-more', text: 'Café & more', level: 3, children: [] }],
+            },
+        ]);
+    });
+
+    it('keeps non-Latin headings readable in their anchors', () => {
+        const { toc } = renderArticleMarkdown('## වැසි සමය\n\n## மழைக் காலம்\n\n## 🌧️');
+
+        expect(toc.map(entry => entry.id)).toEqual(['වැසි-සමය', 'மழைக்-காலம்', 'section']);
+    });
+
+    it('builds toc text from the sanitized heading', () => {
+        const { toc } = renderArticleMarkdown('## Hello <script>alert(1)</script><b onclick="steal()">world</b>');
+
+        expect(toc[0]).toMatchObject({ id: 'hello-world', text: 'Hello world' });
+    });
+
+    it('strips script and unsafe links', () => {
+        const { html } = renderArticleMarkdown('<script>alert(1)</script>\n\n[x](javascript:alert(1)) <img src="a.png" onerror="alert(1)">');
+
+        expect(html).not.toContain('<script');
+        expect(html).not.toContain('javascript:');
+        expect(html).not.toContain('onerror');
+    });
+
+    it('counts prose words but not code', () => {
+        const words = Array.from({ length: 460 }, () => 'word').join(' ');
+        const result = renderArticleMarkdown(`${words}\n\n\`\`\`\nconst ignored = true;\n\`\`\``);
+
+        expect(result.wordCount).toBe(460);
+        expect(result.readingTimeMinutes).toBe(2);
+        expect(renderArticleMarkdown('').readingTimeMinutes).toBe(1);
+    });
+});
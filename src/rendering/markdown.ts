@@ -0,0 +1,147 @@
+import { Marked, Tokens } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { escapeXml } from '../site/xml';
+
+export interface TocEntry {
+    id: string;
+    text: string;
+    level: 2 | 3;
+    children: TocEntry[];
+}
+
+export interface RenderedMarkdown {
+    html: string;
+    toc: TocEntry[];
+    wordCount: number;
+    readingTimeMinutes: number;
+}
+
+const WORDS_PER_MINUTE = 230;
+
+/**
+ * Callout boxes written by the final review stage, e.g. `> 💡 **Pro Tip:** ...`,
+ * keyed by their emoji (without the variation selector)
+ */
+const CALLOUT_TYPES: Record<string, string> = {
+    '💡': 'tip',
+    '⚠': 'warning',
+    '✅': 'success',
+    '🎯': 'key-point',
+    '📌': 'takeaways',
+};
+
+const CALLOUT_PATTERN = /^\s*(💡|⚠|✅|🎯|📌)\uFE0F?\s*\*\*(.+?)\*\*:?\s*/u;
+
+const ALLOWED_TAGS = [
+    ...sanitizeHtml.defaults.allowedTags,
+    'img', 'figure', 'figcaption', 'picture', 'source', 'h1', 'h2', 'aside',
+];
+
+const ALLOWED_ATTRIBUTES: sanitizeHtml.IOptions['allowedAttributes'] = {
+    ...sanitizeHtml.defaults.allowedAttributes,
+    '*': ['id', 'class', 'aria-label'],
+    img: ['src', 'srcset', 'sizes', 'alt', 'title', 'width', 'height', 'loading'],
+    source: ['srcset', 'sizes', 'type', 'media'],
+    a: ['href', 'name', 'target', 'rel', 'title'],
+};
+
+/**
+ * Remove anything that could run script from generated HTML
+ */
+export function sanitize(html: string): string {
+    return sanitizeHtml(html, {
+        allowedTags: ALLOWED_TAGS,
+        allowedAttributes: ALLOWED_ATTRIBUTES,
+        allowedSchemes: ['http', 'https', 'mailto'],
+    });
+}
+
+/**
+ * URL fragment for a heading: lowercase words joined by hyphens, with Latin
+ * accents folded and other scripts kept as they are (vowel signs and
+ * joiners included)
+ */
+export function slugifyHeading(text: string): string {
+    const words = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .normalize('NFC')
+        .toLowerCase()
+        .match(/[\p{L}\p{N}][\p{L}\p{M}\p{N}\u200c\u200d]*/gu);
+    return words ? words.join('-') : 'section';
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+/**
+ * Render article markdown to sanitized HTML with heading anchors and
+ * callout boxes, plus an H2/H3 table of contents and reading stats
+ */
+export function renderArticleMarkdown(markdown: string): RenderedMarkdown {
+    const toc: TocEntry[] = [];
+    const usedIds = new Map<string, number>();
+
+    const uniqueId = (text: string) => {
+        const base = slugifyHeading(text);
+        const seen = usedIds.get(base) ?? 0;
+        usedIds.set(base, seen + 1);
+        return seen === 0 ? base : `${base}-${seen}`;
+    };
+
+    const marked = new Marked({
+        gfm: true,
+        async: false,
+        renderer: {
+            heading({ tokens, depth }: Tokens.Heading) {
+                const inner = this.parser.parseInline(tokens);
+                // The TOC is returned as-is, so it must not carry raw inline HTML the body sanitizer would drop
+                const text = htmlToText(sanitize(inner));
+                const id = uniqueId(text);
+
+                if (depth === 2) {
+                    toc.push({ id, text, level: 2, children: [] });
+                } else if (depth === 3) {
+                    const entry: TocEntry = { id, text, level: 3, children: [] };
+                    const parent = toc[toc.length - 1];
+                    if (parent) parent.children.push(entry);
+                    else toc.push(entry);
+                }
+
+                return `<h${depth} id="${id}">${inner}</h${depth}>\n`;
+            },
+            blockquote({ text }: Tokens.Blockquote) {
+                const match = CALLOUT_PATTERN.exec(text);
+                if (!match) return false;
+
+                const type = CALLOUT_TYPES[match[1]];
+                const label = escapeXml(match[2].replace(/:$/, '').trim());
+                const body = this.parser.parse(marked.lexer(text.slice(match[0].length)));
+
+                return `<aside class="callout callout-${type}" aria-label="${label}">\n`
+                    + `<p class="callout-title">${label}</p>\n${body}</aside>\n`;
+            },
+        },
+    });
+
+    const html = sanitize(marked.parse(markdown) as string);
+
+    // Code samples are skimmed rather than read, so they don't count towards reading time
+    const prose = htmlToText(html.replace(/<pre[\s\S]*?<\/pre>/g, ' ').replace(/<[^>]+>/g, ' '));
+    const wordCount = prose.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+    return {
+        html,
+        toc,
+        wordCount,
+        readingTimeMinutes: Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE)),
+    };
+}
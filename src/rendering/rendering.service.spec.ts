@@ -0,0 +1,17 @@
+import { RenderingService } from './rendering.service';
+
+describe('RenderingService', () => {
+    const article = { id: 'article-1', updated_at: '2026-03-01T10:00:00.000Z', content_markdown: '## Before' };
+
+    it('serves the cached render until the article is edited', () => {
+        const service = new RenderingService();
+        const first = service.render(article);
+
+        expect(service.render({ ...article })).toBe(first);
+
+        const edited = service.render({ ...article, updated_at: '2026-03-02T10:00:00.000Z', content_markdown: '## After' });
+
+        expect(edited).not.toBe(first);
+        expect(edited.html).toContain('<h2 id="after">After</h2>');
+    });
+});
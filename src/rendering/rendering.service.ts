@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import type { Article } from '../supabase/supabase.service';
+import { renderArticleMarkdown, RenderedMarkdown } from './markdown';
+
+const MAX_CACHED_ARTICLES = 500;
+
+/**
+ * Renders article bodies, caching each article's output until its
+ * `updated_at` changes. The cache is a small LRU keyed by article id.
+ */
+@Injectable()
+export class RenderingService {
+    private readonly cache = new Map<string, { updatedAt: string; rendered: RenderedMarkdown }>();
+
+    render(article: Pick<Article, 'id' | 'updated_at' | 'content_markdown'>): RenderedMarkdown {
+        const cached = this.cache.get(article.id);
+        if (cached && cached.updatedAt === article.updated_at) {
+            // Re-insert to mark as most recently used
+            this.cache.delete(article.id);
+            this.cache.set(article.id, cached);
+            return cached.rendered;
+        }
+
+        const rendered = renderArticleMarkdown(article.content_markdown ?? '');
+        this.cache.delete(article.id);
+        this.cache.set(article.id, { updatedAt: article.updated_at, rendered });
+
+        if (this.cache.size > MAX_CACHED_ARTICLES) {
+            const oldest = this.cache.keys().next().value as string;
+            this.cache.delete(oldest);
+        }
+
+        return rendered;
+    }
+}
@@ -0,0 +1,114 @@
+import { SearchDocument, SearchIndex, stripMarkdown } from './search-index';
+
+describe('SearchIndex', () => {
+    const doc = (overrides: Partial<SearchDocument>): SearchDocument => ({
+        id: 'id',
+        slug: 'slug',
+        title: '',
+        metaDescription: '',
+        keywords: [],
+        content: '',
+        categoryId: null,
+        categoryName: null,
+        authorId: null,
+        authorName: null,
+        publishedAt: null,
+        thumbnailUrl: null,
+        locale: 'en',
+        ...overrides,
+    });
+
+    const index = new SearchIndex([
+        doc({
+            id: 'kubernetes',
+            title: 'Kubernetes autoscaling in practice',
+            keywords: ['kubernetes', 'autoscaling'],
+            content: 'Horizontal pod autoscaling reacts to CPU load. Kubernetes also supports custom metrics.',
+            categoryId: 'devops',
+            categoryName: 'DevOps',
+            authorId: 'alice',
+            authorName: 'Alice',
+        }),
+        doc({
+            id: 'typescript',
+            title: 'TypeScript generics explained',
+            content: 'Generics let you write reusable functions. A passing mention of kubernetes here.',
+            categoryId: 'web',
+            categoryName: 'Web',
+            authorId: 'bob',
+            authorName: 'Bob',
+        }),
+        doc({
+            id: 'react',
+            title: 'React <Suspense> patterns',
+            content: 'Suspense boundaries & data fetching.',
+            categoryId: 'web',
+            categoryName: 'Web',
+            authorId: 'alice',
+            authorName: 'Alice',
+        }),
+    ]);
+
+    const search = (q: string, options = {}) => index.search(q, { limit: 10, offset: 0, ...options });
+
+    it('ranks title and keyword matches above passing mentions', () => {
+        const results = search('kubernetes');
+
+        expect(results.hits.map(hit => hit.document.id)).toEqual(['kubernetes', 'typescript']);
+    });
+
+    it('tolerates typos and unfinished words', () => {
+        expect(search('kubernets').hits[0]?.document.id).toBe('kubernetes');
+        expect(search('genrics').hits[0]?.document.id).toBe('typescript');
+        expect(search('typescr').hits[0]?.document.id).toBe('typescript');
+    });
+
+    it('highlights matches in an escaped snippet', () => {
+        const [hit] = search('suspense').hits;
+
+        expect(hit.snippet).toContain('<mark>Suspense</mark>');
+        expect(search('fetching').hits[0].snippet).toContain('&amp;');
+    });
+
+    it('returns facets for all matches and applies filters to hits only', () => {
+        const results = search('kubernetes', { categoryId: 'web' });
+
+        expect(results.total).toBe(1);
+        expect(results.hits[0].document.id).toBe('typescript');
+        expect(results.facets.categories).toEqual([
+            { id: 'devops', name: 'DevOps', count: 1 },
+            { id: 'web', name: 'Web', count: 1 },
+        ]);
+    });
+
+    const multilingual = new SearchIndex([
+        doc({ id: 'kubernetes-en', title: 'Kubernetes autoscaling', categoryId: 'devops', categoryName: 'DevOps' }),
+        doc({
+            id: 'kubernetes-si',
+            title: 'Kubernetes ස්වයංක්‍රීය පරිමාණය',
+            content: 'CPU භාරයට අනුව pod ගණන වෙනස් වේ.',
+            categoryId: 'devops',
+            categoryName: 'DevOps',
+            locale: 'si',
+        }),
+    ]);
+
+    it('matches words in non-Latin scripts', () => {
+        const ids = (q: string) => multilingual.search(q, { limit: 10, offset: 0 }).hits.map(hit => hit.document.id);
+
+        expect(ids('ස්වයංක්‍රීය')).toEqual(['kubernetes-si']);
+        expect(ids('පරිමාණය')).toEqual(['kubernetes-si']);
+        expect(multilingual.search('භාරයට', { limit: 10, offset: 0 }).hits[0]?.snippet).toContain('<mark>භාරයට</mark>');
+    });
+
+    it('limits hits and facets to one locale', () => {
+        const results = multilingual.search('kubernetes', { limit: 10, offset: 0, locale: 'si' });
+
+        expect(results.hits.map(hit => hit.document.id)).toEqual(['kubernetes-si']);
+        expect(results.facets.categories).toEqual([{ id: 'devops', name: 'DevOps', count: 1 }]);
+    });
+
+    it('strips markdown before indexing', () => {
+        expect(stripMarkdown('## Title\n\nSome **bold** [link](http://x) ![img](a.png)')).toBe('Title Some bold link');
+    });
+});
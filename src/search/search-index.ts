@@ -0,0 +1,338 @@
+/**
+ * Small in-memory full-text index for published articles.
+ * BM25 ranking over weighted fields, prefix matching on the last query word
+ * and edit-distance typo tolerance. Rebuilt from scratch, never mutated.
+ */
+
+export interface SearchDocument {
+    id: string;
+    slug: string;
+    title: string;
+    metaDescription: string;
+    keywords: string[];
+    /** Plain text body (markdown stripped) */
+    content: string;
+    categoryId: string | null;
+    categoryName: string | null;
+    authorId: string | null;
+    authorName: string | null;
+    publishedAt: string | null;
+    thumbnailUrl: string | null;
+    locale: string;
+}
+
+export interface SearchOptions {
+    limit: number;
+    offset: number;
+    categoryId?: string;
+    authorId?: string;
+    locale?: string;
+}
+
+export interface SearchHit {
+    document: SearchDocument;
+    score: number;
+    /** HTML-escaped excerpt with matches wrapped in <mark> */
+    snippet: string;
+}
+
+export interface SearchFacet {
+    id: string;
+    name: string | null;
+    count: number;
+}
+
+export interface SearchResults {
+    total: number;
+    hits: SearchHit[];
+    facets: {
+        categories: SearchFacet[];
+        authors: SearchFacet[];
+    };
+}
+
+const FIELD_WEIGHTS = {
+    title: 4,
+    keywords: 3,
+    metaDescription: 2,
+    content: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const EXACT_WEIGHT = 1;
+const PREFIX_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+const MAX_EXPANSIONS = 10;
+
+const SNIPPET_WORDS = 30;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'with', 'you', 'your',
+]);
+
+/**
+ * A letter or digit in any script, followed by any further letters, digits,
+ * combining marks and joiners, so Sinhala or Tamil words aren't split at
+ * their vowel signs
+ */
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{M}\p{N}\u200c\u200d]*/gu;
+
+/**
+ * Lowercase words, with Latin accents folded
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Reduce markdown to plain text for indexing and snippets
+ */
+export function stripMarkdown(markdown: string): string {
+    return markdown
+        .replace(/```[\s\S]*?```/g, ' ')
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+        .replace(/\[IMAGE:[^\]]*\]/gi, ' ')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+        .replace(/[*_`~|]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Levenshtein distance, giving up early once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+export class SearchIndex {
+    /** term -> document index -> weighted term frequency */
+    private readonly postings = new Map<string, Map<number, number>>();
+    private readonly lengths: number[] = [];
+    private readonly averageLength: number;
+
+    constructor(private readonly documents: SearchDocument[]) {
+        documents.forEach((doc, index) => {
+            const fields: [keyof typeof FIELD_WEIGHTS, string][] = [
+                ['title', doc.title],
+                ['keywords', doc.keywords.join(' ')],
+                ['metaDescription', doc.metaDescription],
+                ['content', doc.content],
+            ];
+
+            let length = 0;
+            for (const [field, text] of fields) {
+                for (const term of tokenize(text)) {
+                    const weight = FIELD_WEIGHTS[field];
+                    const docs = this.postings.get(term) ?? new Map<number, number>();
+                    docs.set(index, (docs.get(index) ?? 0) + weight);
+                    this.postings.set(term, docs);
+                    length += weight;
+                }
+            }
+            this.lengths.push(length);
+        });
+
+        this.averageLength = this.lengths.reduce((sum, l) => sum + l, 0) / (this.lengths.length || 1);
+    }
+
+    get size(): number {
+        return this.documents.length;
+    }
+
+    search(query: string, options: SearchOptions): SearchResults {
+        const empty: SearchResults = { total: 0, hits: [], facets: { categories: [], authors: [] } };
+
+        let queryTerms = tokenize(query);
+        const meaningful = queryTerms.filter(term => !STOP_WORDS.has(term));
+        if (meaningful.length > 0) queryTerms = meaningful;
+        if (queryTerms.length === 0) return empty;
+
+        // Each query word expands to the index terms it may match, with a confidence weight
+        const expansions = queryTerms.map((term, i) => this.expand(term, i === queryTerms.length - 1));
+
+        let scores = this.score(expansions, true);
+        if (scores.size === 0) {
+            // No document matches every word: fall back to matching any of them
+            scores = this.score(expansions, false);
+        }
+        if (scores.size === 0) return empty;
+
+        // Other languages are out of scope entirely, facets included
+        const matched = Array.from(scores.keys())
+            .filter(index => !options.locale || this.documents[index].locale === options.locale);
+        const facets = {
+            categories: this.facet(matched, doc => doc.categoryId, doc => doc.categoryName),
+            authors: this.facet(matched, doc => doc.authorId, doc => doc.authorName),
+        };
+
+        const ranked = matched
+            .filter(index => {
+                const doc = this.documents[index];
+                if (options.categoryId && doc.categoryId !== options.categoryId) return false;
+                if (options.authorId && doc.authorId !== options.authorId) return false;
+                return true;
+            })
+            .sort((a, b) => (scores.get(b) as number) - (scores.get(a) as number));
+
+        const highlightTerms = new Set(expansions.flatMap(expansion => Array.from(expansion.keys())));
+
+        return {
+            total: ranked.length,
+            facets,
+            hits: ranked.slice(options.offset, options.offset + options.limit).map(index => ({
+                document: this.documents[index],
+                score: Math.round((scores.get(index) as number) * 1000) / 1000,
+                snippet: this.snippet(this.documents[index], highlightTerms),
+            })),
+        };
+    }
+
+    private expand(term: string, isLast: boolean): Map<string, number> {
+        const expansion = new Map<string, number>();
+        if (this.postings.has(term)) {
+            expansion.set(term, EXACT_WEIGHT);
+        }
+
+        // Let "typescr" find "typescript" while the user is still typing
+        if (isLast && term.length >= 3) {
+            for (const candidate of this.postings.keys()) {
+                if (expansion.size >= MAX_EXPANSIONS) break;
+                if (candidate !== term && candidate.startsWith(term)) {
+                    expansion.set(candidate, PREFIX_WEIGHT);
+                }
+            }
+        }
+
+        if (term.length >= 4) {
+            const maxEdits = term.length >= 8 ? 2 : 1;
+            const fuzzy: [string, number][] = [];
+            for (const candidate of this.postings.keys()) {
+                if (expansion.has(candidate)) continue;
+                const distance = editDistance(term, candidate, maxEdits);
+                if (distance <= maxEdits) fuzzy.push([candidate, distance]);
+            }
+            fuzzy
+                .sort((a, b) => a[1] - b[1])
+                .slice(0, MAX_EXPANSIONS)
+                .forEach(([candidate, distance]) => expansion.set(candidate, FUZZY_WEIGHT / distance));
+        }
+
+        return expansion;
+    }
+
+    private score(expansions: Map<string, number>[], requireAll: boolean): Map<number, number> {
+        const totals = new Map<number, number>();
+        const matchCounts = new Map<number, number>();
+
+        for (const expansion of expansions) {
+            // Best-scoring expansion per document, so typo variants don't stack
+            const best = new Map<number, number>();
+            for (const [term, weight] of expansion) {
+                const docs = this.postings.get(term) as Map<number, number>;
+                const idf = Math.log(1 + (this.documents.length - docs.size + 0.5) / (docs.size + 0.5));
+                for (const [index, tf] of docs) {
+                    const norm = tf + K1 * (1 - B + B * (this.lengths[index] / this.averageLength));
+                    const score = weight * idf * ((tf * (K1 + 1)) / norm);
+                    best.set(index, Math.max(best.get(index) ?? 0, score));
+                }
+            }
+            for (const [index, score] of best) {
+                totals.set(index, (totals.get(index) ?? 0) + score);
+                matchCounts.set(index, (matchCounts.get(index) ?? 0) + 1);
+            }
+        }
+
+        if (requireAll) {
+            for (const index of Array.from(totals.keys())) {
+                if (matchCounts.get(index) !== expansions.length) totals.delete(index);
+            }
+        }
+        return totals;
+    }
+
+    private facet(
+        matched: number[],
+        key: (doc: SearchDocument) => string | null,
+        label: (doc: SearchDocument) => string | null,
+    ): SearchFacet[] {
+        const counts = new Map<string, SearchFacet>();
+        for (const index of matched) {
+            const doc = this.documents[index];
+            const id = key(doc);
+            if (!id) continue;
+            const facet = counts.get(id) ?? { id, name: label(doc), count: 0 };
+            facet.count++;
+            counts.set(id, facet);
+        }
+        return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Pick the window of the body with the most matched words, falling
+     * back to the meta description when the body has no match
+     */
+    private snippet(doc: SearchDocument, terms: Set<string>): string {
+        const words = doc.content.split(/\s+/).filter(Boolean);
+        const isMatch = (word: string) => tokenize(word).some(token => terms.has(token));
+        const matches = words.map(isMatch);
+
+        let bestStart = -1;
+        let bestCount = 0;
+        let count = 0;
+        for (let i = 0; i < words.length; i++) {
+            if (matches[i]) count++;
+            if (i >= SNIPPET_WORDS && matches[i - SNIPPET_WORDS]) count--;
+            if (count > bestCount) {
+                bestCount = count;
+                bestStart = Math.max(0, i - SNIPPET_WORDS + 1);
+            }
+        }
+
+        if (bestStart === -1) {
+            const fallback = doc.metaDescription.split(/\s+/).filter(Boolean);
+            return fallback.map(word => this.highlight(word, isMatch(word))).join(' ');
+        }
+
+        // Start a few words before the first match for context
+        const firstMatch = matches.indexOf(true, bestStart);
+        const start = Math.max(0, firstMatch - 5);
+        const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+        const body = words.slice(start, end).map((word, i) => this.highlight(word, matches[start + i])).join(' ');
+        return `${start > 0 ? '… ' : ''}${body}${end < words.length ? ' …' : ''}`;
+    }
+
+    private highlight(word: string, matched: boolean): string {
+        const escaped = word
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+        return matched ? `<mark>${escaped}</mark>` : escaped;
+    }
+}
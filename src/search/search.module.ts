@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+    imports: [SupabaseModule],
+    providers: [SearchService],
+    exports: [SearchService],
+})
+export class SearchModule { }
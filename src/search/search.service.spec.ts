@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+import { Article, SupabaseService } from '../supabase/supabase.service';
+import { SearchService } from './search.service';
+
+describe('SearchService', () => {
+    const article = (id: string) => ({
+        id,
+        slug: id,
+        title: `Monsoon ${id}`,
+        meta_description: null,
+        keywords: [],
+        content_markdown: 'It rains.',
+        category_id: null,
+        author_id: null,
+        published_at: '2026-03-01T10:00:00.000Z',
+        thumbnail_url: null,
+        locale: 'en',
+    }) as unknown as Article;
+
+    it('does not cache an index that was invalidated while it was being built', async () => {
+        const supabase = {
+            getPublishedArticlesForSearch: jest.fn(),
+            getAllCategories: jest.fn().mockResolvedValue([]),
+        };
+        const service = new SearchService(
+            { get: () => undefined } as unknown as ConfigService,
+            supabase as unknown as SupabaseService,
+        );
+        let finishStale: (articles: Article[]) => void = () => undefined;
+        supabase.getPublishedArticlesForSearch
+            .mockReturnValueOnce(new Promise(resolve => { finishStale = resolve; }))
+            .mockResolvedValue([article('kept')]);
+        const ids = async (search: ReturnType<SearchService['search']>) => (await search).hits.map(hit => hit.document.id);
+
+        const stale = service.search('monsoon', { limit: 10, offset: 0 });
+        await Promise.resolve();
+        service.invalidate();
+        const fresh = service.search('monsoon', { limit: 10, offset: 0 });
+        finishStale([article('kept'), article('unpublished')]);
+
+        expect(await ids(stale)).toEqual(expect.arrayContaining(['unpublished']));
+        expect(await ids(fresh)).toEqual(['kept']);
+        expect(await ids(service.search('monsoon', { limit: 10, offset: 0 }))).toEqual(['kept']);
+        expect(supabase.getPublishedArticlesForSearch).toHaveBeenCalledTimes(2);
+    });
+});
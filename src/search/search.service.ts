@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { ArticleStatusChangedEvent } from '../workflow/article-workflow.service';
+import { SearchDocument, SearchIndex, SearchResults, stripMarkdown } from './search-index';
+
+/**
+ * Owns the in-process search index over published articles.
+ *
+ * The index is built lazily on the first search and rebuilt whenever an
+ * article enters or leaves `published`. It also expires after
+ * SEARCH_INDEX_TTL_MS (default 10 minutes) so edits to published articles,
+ * or changes made by another instance, are picked up.
+ */
+@Injectable()
+export class SearchService {
+    private readonly logger = new Logger(SearchService.name);
+    private readonly ttlMs: number;
+
+    private index: SearchIndex | null = null;
+    private builtAt = 0;
+    // Bumped on invalidation so a build that started earlier doesn't cache its stale index
+    private generation = 0;
+    private building: { generation: number; index: Promise<SearchIndex> } | null = null;
+
+    constructor(
+        private configService: ConfigService,
+        private supabaseService: SupabaseService,
+    ) {
+        const ttl = Number(this.configService.get<string>('SEARCH_INDEX_TTL_MS'));
+        this.ttlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : 10 * 60 * 1000;
+    }
+
+    async search(
+        query: string,
+        options: { limit: number; offset: number; category?: string; author?: string; locale?: string },
+    ): Promise<SearchResults> {
+        const index = await this.getIndex();
+
+        let categoryId: string | undefined;
+        if (options.category) {
+            const category = await this.supabaseService.getCategoryBySlug(options.category);
+            if (!category) return { total: 0, hits: [], facets: { categories: [], authors: [] } };
+            categoryId = category.id;
+        }
+
+        return index.search(query, {
+            limit: options.limit,
+            offset: options.offset,
+            categoryId,
+            authorId: options.author,
+            locale: options.locale,
+        });
+    }
+
+    @OnEvent('article.status.changed')
+    handleStatusChanged(event: ArticleStatusChangedEvent) {
+        if (event.from === 'published' || event.to === 'published') {
+            this.invalidate();
+        }
+    }
+
+    /**
+     * Drop the current index; the next search rebuilds it
+     */
+    invalidate() {
+        this.index = null;
+        this.generation++;
+    }
+
+    private async getIndex(): Promise<SearchIndex> {
+        if (this.index && Date.now() - this.builtAt < this.ttlMs) {
+            return this.index;
+        }
+
+        // Concurrent searches share a single rebuild, unless it predates an invalidation
+        if (!this.building || this.building.generation !== this.generation) {
+            const generation = this.generation;
+            const index = this.build(generation).finally(() => {
+                if (this.building?.generation === generation) this.building = null;
+            });
+            this.building = { generation, index };
+        }
+        return this.building.index;
+    }
+
+    private async build(generation: number): Promise<SearchIndex> {
+        const started = Date.now();
+        const [articles, categories] = await Promise.all([
+            this.supabaseService.getPublishedArticlesForSearch(),
+            this.supabaseService.getAllCategories(),
+        ]);
+        const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+        const documents: SearchDocument[] = articles.map(article => ({
+            id: article.id,
+            slug: article.slug,
+            title: article.title,
+            metaDescription: article.meta_description ?? '',
+            keywords: article.keywords ?? [],
+            content: stripMarkdown(article.content_markdown ?? ''),
+            categoryId: article.category_id,
+            categoryName: article.category_id ? categoryNames.get(article.category_id) ?? null : null,
+            authorId: article.author_id,
+            authorName: article.author?.full_name ?? null,
+            publishedAt: article.published_at,
+            thumbnailUrl: article.thumbnail_url,
+            locale: article.locale,
+        }));
+
+        const index = new SearchIndex(documents);
+        if (generation === this.generation) {
+            this.index = index;
+            this.builtAt = Date.now();
+        }
+        this.logger.log(`Search index built with ${documents.length} articles in ${Date.now() - started}ms`);
+        return index;
+    }
+}
@@ -0,0 +1,39 @@
+import type { Request, Response } from 'express';
+import { sendCached } from './http-cache';
+
+describe('sendCached', () => {
+    const lastModified = new Date('2026-03-01T10:00:00.000Z');
+
+    const send = (body: string, headers: Record<string, string> = {}) => {
+        const sent: { status: number; headers: Record<string, string>; body?: string } = { status: 200, headers: {} };
+        const res = {
+            setHeader: (name: string, value: string) => { sent.headers[name] = value; },
+            status: (status: number) => { sent.status = status; return res; },
+            type: () => res,
+            send: (value: string) => { sent.body = value; },
+            end: () => undefined,
+        };
+        sendCached({ headers } as unknown as Request, res as unknown as Response, body, 'text/plain', lastModified);
+        return sent;
+    };
+
+    it('answers 304 while the body is unchanged', () => {
+        const { headers } = send('<rss>v1</rss>');
+
+        expect(send('<rss>v1</rss>', { 'if-none-match': headers.ETag }).status).toBe(304);
+        expect(send('<rss>v1</rss>', { 'if-modified-since': headers['Last-Modified'] }).status).toBe(304);
+    });
+
+    it('sends the new body when the content changes, even if Last-Modified does not', () => {
+        const { headers } = send('<rss>v1</rss>');
+
+        const changed = send('<rss>v2</rss>', {
+            'if-none-match': headers.ETag,
+            'if-modified-since': headers['Last-Modified'],
+        });
+
+        expect(changed.status).toBe(200);
+        expect(changed.body).toBe('<rss>v2</rss>');
+        expect(changed.headers.ETag).not.toBe(headers.ETag);
+    });
+});
@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+
+/**
+ * Send a public, cacheable text response with ETag and Last-Modified,
+ * answering 304 when the client's copy is still current.
+ */
+export function sendCached(
+    req: Request,
+    res: Response,
+    body: string,
+    contentType: string,
+    lastModified: Date | null,
+    maxAgeSeconds = 300,
+) {
+    const etag = `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', `public, max-age=${maxAgeSeconds}`);
+    if (lastModified) {
+        res.setHeader('Last-Modified', lastModified.toUTCString());
+    }
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    const ifModifiedSince = req.headers['if-modified-since'];
+
+    const notModified = ifNoneMatch
+        ? ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')
+        : Boolean(lastModified && ifModifiedSince && Math.floor(lastModified.getTime() / 1000) <= Date.parse(ifModifiedSince) / 1000);
+
+    if (notModified) {
+        res.status(304).end();
+        return;
+    }
+
+    res.type(contentType).send(body);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SiteService } from './site.service';
+
+@Module({
+    imports: [ConfigModule],
+    providers: [SiteService],
+    exports: [SiteService],
+})
+export class SiteModule { }
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Public URLs and metadata of the blog frontend, used wherever the API
+ * produces links for outside consumers (feeds, sitemaps, structured data).
+ *
+ * Config keys:
+ *   SITE_URL (first FRONTEND_URL, then http://localhost:3000), SITE_NAME, SITE_DESCRIPTION,
+ *   SITE_ARTICLE_PATH (/blog/:slug), PUBLIC_API_URL (SITE_URL + /api), SITE_LOGO_URL
+ */
+@Injectable()
+export class SiteService {
+    readonly url: string;
+    readonly name: string;
+    readonly description: string;
+    readonly apiUrl: string;
+    readonly logoUrl: string | null;
+    private readonly articlePath: string;
+
+    constructor(private configService: ConfigService) {
+        const frontend = (this.configService.get<string>('FRONTEND_URL') || '').split(',')[0]?.trim();
+        this.url = this.trimSlash(this.configService.get<string>('SITE_URL') || frontend || 'http://localhost:3000');
+        this.name = this.configService.get<string>('SITE_NAME') || 'Daily Dev';
+        this.description = this.configService.get<string>('SITE_DESCRIPTION') || 'Articles on software development';
+        this.apiUrl = this.trimSlash(this.configService.get<string>('PUBLIC_API_URL') || `${this.url}/api`);
+        this.logoUrl = this.configService.get<string>('SITE_LOGO_URL') || null;
+        this.articlePath = this.configService.get<string>('SITE_ARTICLE_PATH') || '/blog/:slug';
+    }
+
+    articleUrl(slug: string): string {
+        return `${this.url}${this.articlePath.replace(':slug', slug)}`;
+    }
+
+    categoryUrl(slug: string): string {
+        return `${this.url}/category/${slug}`;
+    }
+
+    /**
+     * Absolute URL for an API path such as `/feeds/rss.xml`
+     */
+    apiPath(path: string): string {
+        return `${this.apiUrl}${path}`;
+    }
+
+    private trimSlash(url: string): string {
+        return url.replace(/\/+$/, '');
+    }
+}
@@ -0,0 +1,38 @@
+import { latestModified, toSitemapIndex, toUrlset } from './sitemap-xml';
+
+describe('sitemap xml', () => {
+    it('renders urls with lastmod and image entries', () => {
+        const xml = toUrlset([
+            {
+                loc: 'https://example.com/blog/a?b&c',
+                lastmod: new Date('2026-03-01T12:00:00Z'),
+                images: ['https://cdn.example.com/a.png'],
+            },
+            { loc: 'https://example.com/', lastmod: null, images: [] },
+        ]);
+
+        expect(xml).toContain('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+        expect(xml).toContain('<loc>https://example.com/blog/a?b&amp;c</loc>');
+        expect(xml).toContain('<lastmod>2026-03-01T12:00:00.000Z</lastmod>');
+        expect(xml).toContain('<image:image><image:loc>https://cdn.example.com/a.png</image:loc></image:image>');
+        expect(xml.match(/<lastmod>/g)).toHaveLength(1);
+    });
+
+    it('renders a sitemap index', () => {
+        const xml = toSitemapIndex([{ loc: 'https://example.com/api/sitemaps/1.xml', lastmod: null }]);
+
+        expect(xml).toContain('<sitemapindex');
+        expect(xml).toContain('<sitemap>\n    <loc>https://example.com/api/sitemaps/1.xml</loc>\n  </sitemap>');
+    });
+
+    it('finds the latest lastmod', () => {
+        const latest = latestModified([
+            { lastmod: new Date('2026-01-01') },
+            { lastmod: null },
+            { lastmod: new Date('2026-02-01') },
+        ]);
+
+        expect(latest?.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+        expect(latestModified([])).toBeNull();
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Serializers for sitemaps.org urlsets (with the Google image extension)
+ * and sitemap indexes.
+ */
+
+import { escapeXml } from '../site/xml';
+
+/** Protocol limit on URLs per sitemap file */
+export const SITEMAP_MAX_URLS = 50000;
+
+export interface SitemapUrl {
+    loc: string;
+    lastmod: Date | null;
+    images: string[];
+}
+
+export interface SitemapReference {
+    loc: string;
+    lastmod: Date | null;
+}
+
+export function toUrlset(urls: SitemapUrl[]): string {
+    const entries = urls.map(url => [
+        '  <url>',
+        `    <loc>${escapeXml(url.loc)}</loc>`,
+        url.lastmod ? `    <lastmod>${url.lastmod.toISOString()}</lastmod>` : null,
+        ...url.images.map(image => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+        '  </url>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+        ...entries,
+        '</urlset>',
+        '',
+    ].join('\n');
+}
+
+export function toSitemapIndex(sitemaps: SitemapReference[]): string {
+    const entries = sitemaps.map(sitemap => [
+        '  <sitemap>',
+        `    <loc>${escapeXml(sitemap.loc)}</loc>`,
+        sitemap.lastmod ? `    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>` : null,
+        '  </sitemap>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...entries,
+        '</sitemapindex>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Most recent lastmod of the given URLs, or null if none has one
+ */
+export function latestModified(urls: { lastmod: Date | null }[]): Date | null {
+    let latest: Date | null = null;
+    for (const url of urls) {
+        if (url.lastmod && (!latest || url.lastmod > latest)) latest = url.lastmod;
+    }
+    return latest;
+}
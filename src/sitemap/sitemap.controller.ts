@@ -0,0 +1,32 @@
+import { Controller, Get, Param, Req, Res, HttpException, HttpStatus } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { SitemapService } from './sitemap.service';
+import { sendCached } from '../site/http-cache';
+
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+@Controller()
+export class SitemapController {
+    constructor(private readonly sitemapService: SitemapService) { }
+
+    @Get('sitemap.xml')
+    async getSitemap(@Req() req: Request, @Res() res: Response) {
+        const sitemap = await this.sitemapService.getSitemap();
+        sendCached(req, res, sitemap.body, XML_CONTENT_TYPE, sitemap.lastModified, 3600);
+    }
+
+    @Get('sitemaps/:file')
+    async getSitemapPage(@Param('file') file: string, @Req() req: Request, @Res() res: Response) {
+        const match = /^(\d+)\.xml$/.exec(file);
+        const sitemap = match ? await this.sitemapService.getSitemapPage(Number(match[1])) : null;
+        if (!sitemap) {
+            throw new HttpException('Sitemap not found', HttpStatus.NOT_FOUND);
+        }
+        sendCached(req, res, sitemap.body, XML_CONTENT_TYPE, sitemap.lastModified, 3600);
+    }
+
+    @Get('robots.txt')
+    getRobotsTxt(@Req() req: Request, @Res() res: Response) {
+        sendCached(req, res, this.sitemapService.getRobotsTxt(), 'text/plain; charset=utf-8', null, 3600);
+    }
+}
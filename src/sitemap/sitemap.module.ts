@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SitemapController } from './sitemap.controller';
+import { SitemapService } from './sitemap.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SiteModule } from '../site/site.module';
+
+@Module({
+    imports: [SupabaseModule, SiteModule],
+    controllers: [SitemapController],
+    providers: [SitemapService],
+})
+export class SitemapModule { }
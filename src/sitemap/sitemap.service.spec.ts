@@ -0,0 +1,53 @@
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SiteService } from '../site/site.service';
+import { SitemapService } from './sitemap.service';
+
+describe('SitemapService', () => {
+    const article = (slug: string) => ({
+        id: slug,
+        slug,
+        title: slug,
+        category_id: null,
+        thumbnail_url: null,
+        updated_at: '2026-03-01T10:00:00.000Z',
+        images: [],
+    });
+
+    const createService = () => {
+        const supabase = {
+            getPublishedArticlesForSitemap: jest.fn(),
+            getAllCategories: jest.fn().mockResolvedValue([]),
+        };
+        const site = {
+            url: 'https://example.com',
+            articleUrl: (slug: string) => `https://example.com/blog/${slug}`,
+            categoryUrl: (slug: string) => `https://example.com/category/${slug}`,
+        };
+        const service = new SitemapService(
+            { get: () => undefined } as unknown as ConfigService,
+            supabase as unknown as SupabaseService,
+            site as unknown as SiteService,
+        );
+        return { service, supabase };
+    };
+
+    it('does not cache a build that was invalidated while in flight', async () => {
+        const { service, supabase } = createService();
+        let finishStale: (articles: unknown[]) => void = () => undefined;
+        supabase.getPublishedArticlesForSitemap
+            .mockReturnValueOnce(new Promise(resolve => { finishStale = resolve; }))
+            .mockResolvedValue([article('old'), article('new')]);
+
+        const stale = service.getSitemap();
+        await Promise.resolve();
+        service.handleStatusChanged({ from: 'approved', to: 'published' } as Parameters<SitemapService['handleStatusChanged']>[0]);
+        const fresh = service.getSitemap();
+        finishStale([article('old')]);
+
+        expect((await stale).body).not.toContain('/blog/new');
+        expect((await fresh).body).toContain('/blog/new');
+        expect((await service.getSitemap()).body).toContain('/blog/new');
+        expect(supabase.getPublishedArticlesForSitemap).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SiteService } from '../site/site.service';
+import type { ArticleStatusChangedEvent } from '../workflow/article-workflow.service';
+import { latestModified, SITEMAP_MAX_URLS, SitemapUrl, toSitemapIndex, toUrlset } from './sitemap-xml';
+
+export interface SitemapDocument {
+    body: string;
+    lastModified: Date | null;
+}
+
+/**
+ * Sitemap and robots.txt for the public site.
+ *
+ * The URL list (home, categories, published articles with their images) is
+ * cached for SITEMAP_CACHE_TTL_MS (default 10 minutes) and dropped whenever
+ * an article enters or leaves `published`. Past SITEMAP_MAX_URLS the root
+ * sitemap becomes an index over numbered child sitemaps.
+ *
+ * robots.txt is served from the host root, outside the `api` prefix, since
+ * crawlers only look for it there.
+ *
+ * robots.txt config keys:
+ *   ROBOTS_DISALLOW (comma-separated paths), ROBOTS_BLOCK_ALL ('true' to disallow everything, e.g. on staging)
+ */
+@Injectable()
+export class SitemapService {
+    private readonly logger = new Logger(SitemapService.name);
+    private readonly ttlMs: number;
+
+    private urls: SitemapUrl[] | null = null;
+    private builtAt = 0;
+    // Bumped on invalidation so a build that started earlier doesn't cache its stale result
+    private generation = 0;
+    private building: { generation: number; urls: Promise<SitemapUrl[]> } | null = null;
+
+    constructor(
+        private configService: ConfigService,
+        private supabaseService: SupabaseService,
+        private siteService: SiteService,
+    ) {
+        const ttl = Number(this.configService.get<string>('SITEMAP_CACHE_TTL_MS'));
+        this.ttlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : 10 * 60 * 1000;
+    }
+
+    /**
+     * The root sitemap: a urlset, or an index once there are too many URLs for one file
+     */
+    async getSitemap(): Promise<SitemapDocument> {
+        const urls = await this.getUrls();
+        if (urls.length <= SITEMAP_MAX_URLS) {
+            return { body: toUrlset(urls), lastModified: latestModified(urls) };
+        }
+
+        const sitemaps = this.chunk(urls).map((chunk, i) => ({
+            loc: this.siteService.apiPath(`/sitemaps/${i + 1}.xml`),
+            lastmod: latestModified(chunk),
+        }));
+        return { body: toSitemapIndex(sitemaps), lastModified: latestModified(sitemaps) };
+    }
+
+    /**
+     * One child sitemap of the index (1-based), or null if the page does not exist
+     */
+    async getSitemapPage(page: number): Promise<SitemapDocument | null> {
+        const chunk = this.chunk(await this.getUrls())[page - 1];
+        if (!chunk) return null;
+        return { body: toUrlset(chunk), lastModified: latestModified(chunk) };
+    }
+
+    getRobotsTxt(): string {
+        const lines = ['User-agent: *'];
+
+        if (this.configService.get<string>('ROBOTS_BLOCK_ALL') === 'true') {
+            lines.push('Disallow: /');
+        } else {
+            const disallow = (this.configService.get<string>('ROBOTS_DISALLOW') || '')
+                .split(',')
+                .map(path => path.trim())
+                .filter(Boolean);
+            lines.push('Allow: /', ...disallow.map(path => `Disallow: ${path}`));
+        }
+
+        lines.push('', `Sitemap: ${this.siteService.apiPath('/sitemap.xml')}`, '');
+        return lines.join('\n');
+    }
+
+    @OnEvent('article.status.changed')
+    handleStatusChanged(event: ArticleStatusChangedEvent) {
+        if (event.from === 'published' || event.to === 'published') {
+            this.urls = null;
+            this.generation++;
+        }
+    }
+
+    private chunk(urls: SitemapUrl[]): SitemapUrl[][] {
+        const chunks: SitemapUrl[][] = [];
+        for (let i = 0; i < urls.length; i += SITEMAP_MAX_URLS) {
+            chunks.push(urls.slice(i, i + SITEMAP_MAX_URLS));
+        }
+        return chunks;
+    }
+
+    private async getUrls(): Promise<SitemapUrl[]> {
+        if (this.urls && Date.now() - this.builtAt < this.ttlMs) {
+            return this.urls;
+        }
+
+        if (!this.building || this.building.generation !== this.generation) {
+            const generation = this.generation;
+            const urls = this.build(generation).finally(() => {
+                if (this.building?.generation === generation) this.building = null;
+            });
+            this.building = { generation, urls };
+        }
+        return this.building.urls;
+    }
+
+    private async build(generation: number): Promise<SitemapUrl[]> {
+        const [articles, categories] = await Promise.all([
+            this.supabaseService.getPublishedArticlesForSitemap(),
+            this.supabaseService.getAllCategories(),
+        ]);
+
+        const articleUrls: SitemapUrl[] = articles.map(article => {
+            const images = [...article.images]
+                .sort((a, b) => a.position - b.position)
+                .map(image => image.storage_url)
+                .filter((url): url is string => !!url);
+            if (article.thumbnail_url) images.unshift(article.thumbnail_url);
+
+            return {
+                loc: this.siteService.articleUrl(article.slug),
+                lastmod: new Date(article.updated_at),
+                images: Array.from(new Set(images)),
+            };
+        });
+
+        // A category page changes whenever one of its articles does
+        const categoryUrls: SitemapUrl[] = categories.map(category => ({
+            loc: this.siteService.categoryUrl(category.slug),
+            lastmod: latestModified(articles
+                .filter(article => article.category_id === category.id)
+                .map(article => ({ lastmod: new Date(article.updated_at) }))),
+            images: [],
+        }));
+
+        const home: SitemapUrl = { loc: `${this.siteService.url}/`, lastmod: latestModified(articleUrls), images: [] };
+
+        const urls = [home, ...categoryUrls, ...articleUrls];
+        if (generation === this.generation) {
+            this.urls = urls;
+            this.builtAt = Date.now();
+        }
+        this.logger.log(`Sitemap built with ${urls.length} URLs`);
+        return urls;
+    }
+}
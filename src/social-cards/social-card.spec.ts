@@ -0,0 +1,30 @@
+import { buildSocialCardSvg, textColorFor, wrapTitle } from './social-card';
+
+describe('social card', () => {
+    it('wraps titles by word and truncates overflow with an ellipsis', () => {
+        expect(wrapTitle('Kubernetes autoscaling in practice', 20, 3)).toEqual(['Kubernetes', 'autoscaling in', 'practice']);
+        expect(wrapTitle('one two three four five six', 9, 2)).toEqual(['one two', 'three…']);
+    });
+
+    it('picks readable text colours', () => {
+        expect(textColorFor('#1E1B4B')).toBe('#FFFFFF');
+        expect(textColorFor('#FDE68A')).toBe('#111827');
+        expect(textColorFor('not-a-colour')).toBe('#FFFFFF');
+    });
+
+    it('escapes user content and falls back to an initial without an avatar', () => {
+        const svg = buildSocialCardSvg({
+            title: 'Generics <T> & you',
+            siteName: 'Daily Dev',
+            category: { name: 'Web', color: '#3B82F6', icon: '📚' },
+            author: { name: 'alice', avatarDataUri: null },
+            theme: { primaryColor: '#111111', secondaryColor: '#222222', accentColor: '#F59E0B', headingFont: 'Inter' },
+        });
+
+        expect(svg).toContain('width="1200" height="630"');
+        expect(svg).toContain('Generics &lt;T&gt; &amp; you');
+        expect(svg).toContain('>📚 Web</text>');
+        expect(svg).toContain('>A</text>');
+        expect(svg).not.toContain('<image');
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * 1200x630 Open Graph card, drawn as SVG so it can be rasterized locally
+ * (sharp/librsvg) without an external rendering service.
+ */
+
+import { escapeXml } from '../site/xml';
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+const PADDING = 80;
+const AVATAR_SIZE = 72;
+
+export interface SocialCardInput {
+    title: string;
+    siteName: string;
+    category: { name: string; color: string; icon: string } | null;
+    author: { name: string; avatarDataUri: string | null } | null;
+    theme: { primaryColor: string; secondaryColor: string; accentColor: string; headingFont: string };
+}
+
+/**
+ * Split a title into at most `maxLines` lines of roughly `maxChars` characters,
+ * ending with an ellipsis if it doesn't fit
+ */
+export function wrapTitle(title: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of title.trim().split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (candidate.length <= maxChars || !current) {
+            current = candidate;
+            continue;
+        }
+        lines.push(current);
+        current = word;
+        if (lines.length === maxLines) break;
+    }
+    if (lines.length < maxLines && current) {
+        lines.push(current);
+        current = '';
+    }
+
+    const truncated = current !== '' || lines.some(line => line.length > maxChars);
+    if (truncated) {
+        const last = lines[lines.length - 1].slice(0, maxChars - 1).replace(/[\s.,;:–—-]+$/, '');
+        lines[lines.length - 1] = `${last}…`;
+    }
+    return lines;
+}
+
+/**
+ * Dark or light text, whichever reads better on the given background colour
+ */
+export function textColorFor(background: string): string {
+    let hex = background.trim().replace(/^#/, '');
+    if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+    if (!/^[0-9a-f]{6}$/i.test(hex)) return '#FFFFFF';
+
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return luminance > 0.6 ? '#111827' : '#FFFFFF';
+}
+
+export function buildSocialCardSvg(input: SocialCardInput): string {
+    const { theme, category, author } = input;
+    const text = textColorFor(theme.primaryColor);
+    const font = `${escapeXml(theme.headingFont)}, 'Helvetica Neue', Arial, sans-serif`;
+
+    const fontSize = input.title.length > 70 ? 54 : 64;
+    const lineHeight = Math.round(fontSize * 1.2);
+    // Average glyph width of a bold sans-serif is a little over half the font size
+    const maxChars = Math.floor((CARD_WIDTH - PADDING * 2) / (fontSize * 0.56));
+    const lines = wrapTitle(input.title, maxChars, 4);
+    const titleTop = category ? 230 : 180;
+
+    const parts: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">`,
+        '  <defs>',
+        '    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">',
+        `      <stop offset="0" stop-color="${escapeXml(theme.primaryColor)}"/>`,
+        `      <stop offset="1" stop-color="${escapeXml(theme.secondaryColor)}"/>`,
+        '    </linearGradient>',
+        '    <clipPath id="avatar">',
+        `      <circle cx="${PADDING + AVATAR_SIZE / 2}" cy="${CARD_HEIGHT - PADDING - AVATAR_SIZE / 2}" r="${AVATAR_SIZE / 2}"/>`,
+        '    </clipPath>',
+        '  </defs>',
+        `  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#background)"/>`,
+        `  <rect y="${CARD_HEIGHT - 12}" width="${CARD_WIDTH}" height="12" fill="${escapeXml(theme.accentColor)}"/>`,
+    ];
+
+    if (category) {
+        const label = `${category.icon} ${category.name}`.trim();
+        const pillWidth = Math.round(label.length * 15 + 48);
+        parts.push(
+            `  <rect x="${PADDING}" y="${PADDING}" width="${pillWidth}" height="52" rx="26" fill="${escapeXml(category.color)}"/>`,
+            `  <text x="${PADDING + 24}" y="${PADDING + 35}" font-family="${font}" font-size="26" font-weight="600" fill="${textColorFor(category.color)}">${escapeXml(label)}</text>`,
+        );
+    }
+
+    parts.push(
+        `  <text font-family="${font}" font-size="${fontSize}" font-weight="700" fill="${text}">`,
+        ...lines.map((line, i) => `    <tspan x="${PADDING}" y="${titleTop + i * lineHeight}">${escapeXml(line)}</tspan>`),
+        '  </text>',
+    );
+
+    const footerY = CARD_HEIGHT - PADDING - AVATAR_SIZE / 2 + 10;
+    if (author) {
+        const avatarX = PADDING;
+        const avatarY = CARD_HEIGHT - PADDING - AVATAR_SIZE;
+        if (author.avatarDataUri) {
+            parts.push(`  <image href="${author.avatarDataUri}" x="${avatarX}" y="${avatarY}" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" clip-path="url(#avatar)" preserveAspectRatio="xMidYMid slice"/>`);
+        } else {
+            const initial = author.name.trim().charAt(0).toUpperCase();
+            parts.push(
+                `  <circle cx="${avatarX + AVATAR_SIZE / 2}" cy="${avatarY + AVATAR_SIZE / 2}" r="${AVATAR_SIZE / 2}" fill="${escapeXml(theme.accentColor)}"/>`,
+                `  <text x="${avatarX + AVATAR_SIZE / 2}" y="${footerY}" text-anchor="middle" font-family="${font}" font-size="32" font-weight="700" fill="${textColorFor(theme.accentColor)}">${escapeXml(initial)}</text>`,
+            );
+        }
+        parts.push(`  <text x="${PADDING + AVATAR_SIZE + 24}" y="${footerY}" font-family="${font}" font-size="30" font-weight="600" fill="${text}">${escapeXml(author.name)}</text>`);
+    }
+
+    parts.push(
+        `  <text x="${CARD_WIDTH - PADDING}" y="${footerY}" text-anchor="end" font-family="${font}" font-size="28" fill="${text}" opacity="0.85">${escapeXml(input.siteName)}</text>`,
+        '</svg>',
+        '',
+    );
+
+    return parts.join('\n');
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SocialCardsService } from './social-cards.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SiteModule } from '../site/site.module';
+
+@Module({
+    imports: [SupabaseModule, SiteModule],
+    providers: [SocialCardsService],
+    exports: [SocialCardsService],
+})
+export class SocialCardsModule { }
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import sharp from 'sharp';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { Article } from '../supabase/supabase.service';
+import { SiteService } from '../site/site.service';
+import type { ArticleStatusChangedEvent } from '../workflow/article-workflow.service';
+import { buildSocialCardSvg } from './social-card';
+
+const DEFAULT_THEME = {
+    primaryColor: '#1E1B4B',
+    secondaryColor: '#4338CA',
+    accentColor: '#F59E0B',
+    headingFont: 'Inter',
+};
+
+const AVATAR_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Renders an article's Open Graph card and stores it as `og_image_url`.
+ * Cards are (re)generated when an article reaches review or is published,
+ * since the title and category are final by then, and on demand.
+ * Category icons are emoji, so the host needs an emoji font for librsvg to draw them.
+ */
+@Injectable()
+export class SocialCardsService {
+    private readonly logger = new Logger(SocialCardsService.name);
+
+    constructor(
+        private supabaseService: SupabaseService,
+        private siteService: SiteService,
+    ) { }
+
+    /**
+     * Render and upload the card, returning the updated article or null if it doesn't exist
+     */
+    async generate(articleId: string): Promise<Article | null> {
+        const article = await this.supabaseService.getArticle(articleId);
+        if (!article) return null;
+
+        const [category, theme, avatarDataUri] = await Promise.all([
+            article.category_id ? this.supabaseService.getCategoryById(article.category_id) : null,
+            this.supabaseService.getTheme(),
+            article.author?.avatar_url ? this.fetchAvatar(article.author.avatar_url) : null,
+        ]);
+
+        const svg = buildSocialCardSvg({
+            title: article.title,
+            siteName: this.siteService.name,
+            category: category ? { name: category.name, color: category.color, icon: category.icon } : null,
+            author: article.author?.full_name ? { name: article.author.full_name, avatarDataUri } : null,
+            theme: theme
+                ? {
+                    primaryColor: theme.primary_color,
+                    secondaryColor: theme.secondary_color,
+                    accentColor: theme.accent_color,
+                    headingFont: theme.heading_font,
+                }
+                : DEFAULT_THEME,
+        });
+
+        const png = await sharp(Buffer.from(svg)).png().toBuffer();
+        const url = await this.supabaseService.uploadImage(article.id, png, 'og-image.png');
+
+        // The storage path is reused, so bust CDN and social network caches
+        const updated = await this.supabaseService.updateArticle(article.id, {
+            og_image_url: `${url}?v=${Date.now()}`,
+        });
+        this.logger.log(`Generated social card for article ${article.id}`);
+        return updated;
+    }
+
+    @OnEvent('article.status.changed', { async: true })
+    async handleStatusChanged(event: ArticleStatusChangedEvent) {
+        if (event.to !== 'review' && event.to !== 'published') return;
+
+        try {
+            await this.generate(event.articleId);
+        } catch (error) {
+            this.logger.warn(`Failed to generate social card for article ${event.articleId}`, error);
+        }
+    }
+
+    /**
+     * Download the author's avatar as a small PNG data URI; null if unavailable
+     */
+    private async fetchAvatar(url: string): Promise<string | null> {
+        try {
+            const response = await fetch(url, { signal: AbortSignal.timeout(AVATAR_FETCH_TIMEOUT_MS) });
+            if (!response.ok) return null;
+
+            const png = await sharp(Buffer.from(await response.arrayBuffer()))
+                .resize(144, 144, { fit: 'cover' })
+                .png()
+                .toBuffer();
+            return `data:image/png;base64,${png.toString('base64')}`;
+        } catch (error) {
+            this.logger.warn(`Could not load avatar ${url}`, error);
+            return null;
+        }
+    }
+}
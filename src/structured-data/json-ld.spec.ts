@@ -0,0 +1,67 @@
+import 'reflect-metadata';
+import { buildBlogPosting, buildFaqPage, buildHowTo } from './json-ld';
+
+describe('json-ld', () => {
+    const publisher = { name: 'Daily Dev', url: 'https://example.com', logoUrl: null };
+
+    it('builds a BlogPosting from the article, author and category', () => {
+        const posting = buildBlogPosting({
+            article: {
+                title: 'Kubernetes autoscaling',
+                meta_description: 'Scale pods automatically',
+                keywords: ['kubernetes', 'hpa'],
+                thumbnail_url: 'https://cdn.example.com/k8s.png',
+                og_image_url: null,
+                published_at: '2026-01-01T00:00:00Z',
+                created_at: '2025-12-30T00:00:00Z',
+                updated_at: '2026-01-02T00:00:00Z',
+            },
+            author: { full_name: 'Alice', avatar_url: null },
+            category: { name: 'DevOps' },
+            url: 'https://example.com/blog/k8s',
+            publisher,
+        });
+
+        expect(posting).toEqual({
+            '@context': 'https://schema.org',
+            '@type': 'BlogPosting',
+            mainEntityOfPage: { '@type': 'WebPage', '@id': 'https://example.com/blog/k8s' },
+            url: 'https://example.com/blog/k8s',
+            headline: 'Kubernetes autoscaling',
+            description: 'Scale pods automatically',
+            keywords: 'kubernetes, hpa',
+            image: ['https://cdn.example.com/k8s.png'],
+            datePublished: '2026-01-01T00:00:00Z',
+            dateModified: '2026-01-02T00:00:00Z',
+            articleSection: 'DevOps',
+            author: { '@type': 'Person', name: 'Alice' },
+            publisher: { '@type': 'Organization', name: 'Daily Dev', url: 'https://example.com' },
+        });
+    });
+
+    it('answers FAQ questions with the correct quiz option and skips broken ones', () => {
+        const faq = buildFaqPage({
+            config: {
+                title: 'Check yourself',
+                questions: [
+                    { question: 'What scales pods?', options: ['HPA', 'DNS'], correct: 0 },
+                    { question: 'Out of range?', options: ['A', 'B'], correct: 5 },
+                ],
+            },
+        });
+
+        expect(faq?.mainEntity).toEqual([
+            { '@type': 'Question', name: 'What scales pods?', acceptedAnswer: { '@type': 'Answer', text: 'HPA' } },
+        ]);
+        expect(buildFaqPage({ config: { title: 'Broken' } })).toBeNull();
+    });
+
+    it('turns checklist items into HowTo steps', () => {
+        const howTo = buildHowTo({ config: { title: 'Set up HPA', items: ['Install metrics server', 'Apply manifest'] } });
+
+        expect(howTo?.step).toEqual([
+            { '@type': 'HowToStep', position: 1, text: 'Install metrics server' },
+            { '@type': 'HowToStep', position: 2, text: 'Apply manifest' },
+        ]);
+    });
+});
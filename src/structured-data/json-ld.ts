@@ -0,0 +1,109 @@
+/**
+ * schema.org JSON-LD builders for article pages.
+ * Component configs come from the database untyped, so they are validated
+ * against the generation schemas before use and skipped if malformed.
+ */
+
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { ChecklistConfigSchema, QuizConfigSchema } from '../gemini/gemini.schemas';
+import type { Article, ArticleComponent, Category, Profile } from '../supabase/supabase.service';
+
+export type JsonLd = Record<string, unknown>;
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+/** Google truncates longer headlines */
+const MAX_HEADLINE_LENGTH = 110;
+
+export interface BlogPostingInput {
+    article: Pick<Article, 'title' | 'meta_description' | 'keywords' | 'thumbnail_url' | 'og_image_url' | 'published_at' | 'created_at' | 'updated_at'>;
+    author: Pick<Profile, 'full_name' | 'avatar_url'> | null;
+    category: Pick<Category, 'name'> | null;
+    url: string;
+    wordCount?: number;
+    publisher: { name: string; url: string; logoUrl: string | null };
+}
+
+export function buildBlogPosting(input: BlogPostingInput): JsonLd {
+    const { article, author, category, publisher } = input;
+    const images = [article.og_image_url, article.thumbnail_url].filter((url): url is string => !!url);
+
+    return withoutEmpty({
+        '@context': SCHEMA_CONTEXT,
+        '@type': 'BlogPosting',
+        mainEntityOfPage: { '@type': 'WebPage', '@id': input.url },
+        url: input.url,
+        headline: article.title.length > MAX_HEADLINE_LENGTH
+            ? `${article.title.slice(0, MAX_HEADLINE_LENGTH - 1)}…`
+            : article.title,
+        description: article.meta_description,
+        keywords: article.keywords?.length ? article.keywords.join(', ') : null,
+        image: images.length > 0 ? images : null,
+        datePublished: article.published_at ?? article.created_at,
+        dateModified: article.updated_at,
+        articleSection: category?.name,
+        wordCount: input.wordCount,
+        author: author?.full_name
+            ? withoutEmpty({ '@type': 'Person', name: author.full_name, image: author.avatar_url })
+            : { '@type': 'Organization', name: publisher.name, url: publisher.url },
+        publisher: withoutEmpty({
+            '@type': 'Organization',
+            name: publisher.name,
+            url: publisher.url,
+            logo: publisher.logoUrl ? { '@type': 'ImageObject', url: publisher.logoUrl } : null,
+        }),
+    });
+}
+
+/**
+ * FAQPage from a quiz component: each question answered by its correct option
+ */
+export function buildFaqPage(component: Pick<ArticleComponent, 'config'>): JsonLd | null {
+    const quiz = parseConfig(QuizConfigSchema, component.config);
+    if (!quiz) return null;
+
+    const questions = quiz.questions
+        .filter(question => question.options[question.correct] !== undefined)
+        .map(question => ({
+            '@type': 'Question',
+            name: question.question,
+            acceptedAnswer: { '@type': 'Answer', text: question.options[question.correct] },
+        }));
+    if (questions.length === 0) return null;
+
+    return {
+        '@context': SCHEMA_CONTEXT,
+        '@type': 'FAQPage',
+        name: quiz.title,
+        mainEntity: questions,
+    };
+}
+
+/**
+ * HowTo from a checklist component: one step per item
+ */
+export function buildHowTo(component: Pick<ArticleComponent, 'config'>): JsonLd | null {
+    const checklist = parseConfig(ChecklistConfigSchema, component.config);
+    if (!checklist) return null;
+
+    return {
+        '@context': SCHEMA_CONTEXT,
+        '@type': 'HowTo',
+        name: checklist.title,
+        step: checklist.items.map((item, i) => ({
+            '@type': 'HowToStep',
+            position: i + 1,
+            text: item,
+        })),
+    };
+}
+
+function parseConfig<T extends object>(schema: ClassConstructor<T>, config: Record<string, unknown>): T | null {
+    const instance = plainToInstance(schema, config);
+    return validateSync(instance).length === 0 ? instance : null;
+}
+
+function withoutEmpty(value: JsonLd): JsonLd {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined && v !== ''));
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { StructuredDataService } from './structured-data.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SiteModule } from '../site/site.module';
+import { RenderingModule } from '../rendering/rendering.module';
+
+@Module({
+    imports: [SupabaseModule, SiteModule, RenderingModule],
+    providers: [StructuredDataService],
+    exports: [StructuredDataService],
+})
+export class StructuredDataModule { }
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { Article, ArticleComponent } from '../supabase/supabase.service';
+import { SiteService } from '../site/site.service';
+import { RenderingService } from '../rendering/rendering.service';
+import { buildBlogPosting, buildFaqPage, buildHowTo, JsonLd } from './json-ld';
+
+/**
+ * JSON-LD blocks for an article page: a BlogPosting, plus FAQPage and HowTo
+ * blocks derived from its quiz and checklist components.
+ */
+@Injectable()
+export class StructuredDataService {
+    constructor(
+        private supabaseService: SupabaseService,
+        private siteService: SiteService,
+        private renderingService: RenderingService,
+    ) { }
+
+    /**
+     * `article` should have its author joined, as getArticle and getArticleBySlug do
+     */
+    async forArticle(article: Article, components: ArticleComponent[]): Promise<JsonLd[]> {
+        const category = article.category_id
+            ? await this.supabaseService.getCategoryById(article.category_id)
+            : null;
+
+        const blocks: (JsonLd | null)[] = [
+            buildBlogPosting({
+                article,
+                author: article.author ?? null,
+                category,
+                url: this.siteService.articleUrl(article.slug),
+                wordCount: article.content_markdown ? this.renderingService.render(article).wordCount : undefined,
+                publisher: {
+                    name: this.siteService.name,
+                    url: this.siteService.url,
+                    logoUrl: this.siteService.logoUrl,
+                },
+            }),
+            ...components.map(component => {
+                switch (component.component_type) {
+                    case 'quiz':
+                        return buildFaqPage(component);
+                    case 'checklist':
+                        return buildHowTo(component);
+                    default:
+                        return null;
+                }
+            }),
+        ];
+
+        return blocks.filter((block): block is JsonLd => block !== null);
+    }
+}
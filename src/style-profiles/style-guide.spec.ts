@@ -0,0 +1,61 @@
+import { buildStyleGuide, ensureDisclaimers, findBannedPhrases } from './style-guide';
+import type { StyleProfile } from '../supabase/supabase.service';
+
+const profile: StyleProfile = {
+    id: 'profile-1',
+    name: 'Acme Bank',
+    tone: 'Calm, plain-spoken, third person',
+    audience: 'Retail banking customers',
+    reading_level: 'Grade 8',
+    preferred_word_count: 800,
+    emoji_policy: 'none',
+    banned_phrases: ['game-changer', "I've seen"],
+    required_disclaimers: ['This is not financial advice.'],
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+describe('buildStyleGuide', () => {
+    it('lists every rule the profile sets', () => {
+        const guide = buildStyleGuide(profile);
+
+        expect(guide).toContain('"Acme Bank"');
+        expect(guide).toContain('- Tone of voice: Calm, plain-spoken, third person');
+        expect(guide).toContain('- Audience: Retail banking customers');
+        expect(guide).toContain('- Reading level: Grade 8');
+        expect(guide).toContain('- Length: about 800 words');
+        expect(guide).toContain('Do not use emoji anywhere');
+        expect(guide).toContain('"game-changer", "I\'ve seen"');
+        expect(guide).toContain('  > This is not financial advice.');
+    });
+
+    it('leaves out rules the profile does not set', () => {
+        const guide = buildStyleGuide({
+            ...profile,
+            tone: null,
+            audience: null,
+            reading_level: null,
+            preferred_word_count: null,
+            banned_phrases: [],
+            required_disclaimers: [],
+        });
+
+        expect(guide.split('\n')).toHaveLength(2);
+    });
+});
+
+describe('ensureDisclaimers', () => {
+    it('appends only the disclaimers that are missing', () => {
+        const disclaimers = ['This is not financial advice.', 'Rates change daily.'];
+
+        expect(ensureDisclaimers('# Savings\n\nRates change daily.\n', disclaimers))
+            .toBe('# Savings\n\nRates change daily.\n\n> This is not financial advice.');
+        expect(ensureDisclaimers('Body', [])).toBe('Body');
+    });
+});
+
+describe('findBannedPhrases', () => {
+    it('matches case-insensitively', () => {
+        expect(findBannedPhrases('A true Game-Changer for savers.', profile.banned_phrases)).toEqual(['game-changer']);
+    });
+});
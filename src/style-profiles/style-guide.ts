@@ -0,0 +1,47 @@
+import type { StyleProfile } from '../supabase/supabase.service';
+
+export const EMOJI_POLICIES: StyleProfile['emoji_policy'][] = ['none', 'callouts_only', 'allowed'];
+
+const EMOJI_RULES: Record<StyleProfile['emoji_policy'], string> = {
+    none: 'Do not use emoji anywhere. Write callouts as "> **Pro Tip:** ..." without an icon.',
+    callouts_only: 'Use emoji only as callout icons, never in running text or headings.',
+    allowed: 'Emoji are fine where they help the reader scan.',
+};
+
+/**
+ * Brand rules appended to a writing stage's system instruction. They come
+ * last so they override the generic voice and length guidance above them.
+ */
+export function buildStyleGuide(profile: StyleProfile): string {
+    const rules = [
+        profile.tone && `- Tone of voice: ${profile.tone}`,
+        profile.audience && `- Audience: ${profile.audience}`,
+        profile.reading_level && `- Reading level: ${profile.reading_level}`,
+        profile.preferred_word_count && `- Length: about ${profile.preferred_word_count} words`,
+        `- Emoji: ${EMOJI_RULES[profile.emoji_policy]}`,
+        profile.banned_phrases.length > 0
+            && `- Never use these words or phrases: ${profile.banned_phrases.map(phrase => `"${phrase}"`).join(', ')}`,
+        profile.required_disclaimers.length > 0
+            && `- Keep these disclaimers word for word at the end of the article:\n${profile.required_disclaimers.map(d => `  > ${d}`).join('\n')}`,
+    ].filter(Boolean);
+
+    return `BRAND STYLE GUIDE ("${profile.name}"). These rules take precedence over any conflicting instruction above, including the voice, examples and word count:
+${rules.join('\n')}`;
+}
+
+/**
+ * Append any required disclaimer the model dropped, so they are always published
+ */
+export function ensureDisclaimers(markdown: string, disclaimers: string[]): string {
+    const missing = disclaimers.filter(disclaimer => !markdown.includes(disclaimer));
+    if (missing.length === 0) return markdown;
+    return `${markdown.trimEnd()}\n\n${missing.map(disclaimer => `> ${disclaimer}`).join('\n>\n')}`;
+}
+
+/**
+ * Banned phrases that still appear in the text (case-insensitive)
+ */
+export function findBannedPhrases(markdown: string, phrases: string[]): string[] {
+    const text = markdown.toLowerCase();
+    return phrases.filter(phrase => text.includes(phrase.toLowerCase()));
+}
@@ -0,0 +1,148 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    HttpException,
+    HttpStatus,
+    ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+import { StyleProfilesService } from './style-profiles.service';
+import { EMOJI_POLICIES } from './style-guide';
+import type { StyleProfile } from '../supabase/supabase.service';
+import { Roles } from '../auth/auth.decorators';
+import { EDITORIAL_ROLES, STAFF_ROLES } from '../auth/roles';
+
+class StyleProfileFieldsDto {
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    tone?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    audience?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    reading_level?: string;
+
+    @IsOptional()
+    @IsInt()
+    @Min(300)
+    @Max(10000)
+    preferred_word_count?: number;
+
+    @IsOptional()
+    @IsIn(EMOJI_POLICIES)
+    emoji_policy?: StyleProfile['emoji_policy'];
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(200)
+    @IsString({ each: true })
+    banned_phrases?: string[];
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    required_disclaimers?: string[];
+}
+
+class CreateStyleProfileDto extends StyleProfileFieldsDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+}
+
+class UpdateStyleProfileDto extends StyleProfileFieldsDto {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+}
+
+@Controller('style-profiles')
+export class StyleProfilesController {
+    constructor(private readonly styleProfilesService: StyleProfilesService) { }
+
+    /**
+     * GET /api/style-profiles
+     * List brand voices to generate articles in
+     */
+    @Get()
+    @Roles(...STAFF_ROLES)
+    async listStyleProfiles() {
+        return { success: true, data: await this.styleProfilesService.list() };
+    }
+
+    /**
+     * GET /api/style-profiles/:id
+     */
+    @Get(':id')
+    @Roles(...STAFF_ROLES)
+    async getStyleProfile(@Param('id', ParseUUIDPipe) id: string) {
+        const profile = await this.styleProfilesService.get(id);
+        if (!profile) {
+            throw new HttpException('Style profile not found', HttpStatus.NOT_FOUND);
+        }
+        return { success: true, data: profile };
+    }
+
+    /**
+     * POST /api/style-profiles
+     */
+    @Post()
+    @Roles(...EDITORIAL_ROLES)
+    async createStyleProfile(@Body() dto: CreateStyleProfileDto) {
+        const profile = await this.styleProfilesService.create(dto);
+        return { success: true, data: profile, message: 'Style profile created' };
+    }
+
+    /**
+     * PUT /api/style-profiles/:id
+     * Changes apply to generations that start afterwards
+     */
+    @Put(':id')
+    @Roles(...EDITORIAL_ROLES)
+    async updateStyleProfile(@Param('id', ParseUUIDPipe) id: string, @Body() dto: UpdateStyleProfileDto) {
+        const profile = await this.styleProfilesService.update(id, dto);
+        if (!profile) {
+            throw new HttpException('Style profile not found', HttpStatus.NOT_FOUND);
+        }
+        return { success: true, data: profile, message: 'Style profile updated' };
+    }
+
+    /**
+     * DELETE /api/style-profiles/:id
+     */
+    @Delete(':id')
+    @Roles(...EDITORIAL_ROLES)
+    async deleteStyleProfile(@Param('id', ParseUUIDPipe) id: string) {
+        const deleted = await this.styleProfilesService.delete(id);
+        if (!deleted) {
+            throw new HttpException('Style profile not found', HttpStatus.NOT_FOUND);
+        }
+        return { success: true, message: 'Style profile deleted' };
+    }
+}
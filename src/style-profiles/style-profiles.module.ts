@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StyleProfilesService } from './style-profiles.service';
+import { StyleProfilesController } from './style-profiles.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+    imports: [SupabaseModule, AuthModule],
+    controllers: [StyleProfilesController],
+    providers: [StyleProfilesService],
+    exports: [StyleProfilesService],
+})
+export class StyleProfilesModule { }
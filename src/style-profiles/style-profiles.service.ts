@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { StyleProfile } from '../supabase/supabase.service';
+
+export type StyleProfileInput = Omit<StyleProfile, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Brand voices that articles can be generated in. See buildStyleGuide for
+ * how a profile is turned into instructions for the writing stages.
+ */
+@Injectable()
+export class StyleProfilesService {
+    constructor(private supabaseService: SupabaseService) { }
+
+    async list(): Promise<StyleProfile[]> {
+        return this.supabaseService.getStyleProfiles();
+    }
+
+    /**
+     * Returns null if the profile doesn't exist
+     */
+    async get(id: string): Promise<StyleProfile | null> {
+        return this.supabaseService.getStyleProfile(id);
+    }
+
+    async create(input: Partial<StyleProfileInput> & Pick<StyleProfileInput, 'name'>): Promise<StyleProfile> {
+        return this.supabaseService.createStyleProfile({
+            tone: null,
+            audience: null,
+            reading_level: null,
+            preferred_word_count: null,
+            emoji_policy: 'callouts_only',
+            banned_phrases: [],
+            required_disclaimers: [],
+            ...input,
+        });
+    }
+
+    /**
+     * Returns null if the profile doesn't exist
+     */
+    async update(id: string, updates: Partial<StyleProfileInput>): Promise<StyleProfile | null> {
+        return this.supabaseService.updateStyleProfile(id, updates);
+    }
+
+    /**
+     * Returns false if the profile doesn't exist
+     */
+    async delete(id: string): Promise<boolean> {
+        return this.supabaseService.deleteStyleProfile(id);
+    }
+}
@@ -0,0 +1,99 @@
+import { ConfigService } from '@nestjs/config';
+import { Article, ArticleListOptions, SupabaseService } from './supabase.service';
+
+describe('SupabaseService', () => {
+    type Call = [string, ...unknown[]];
+
+    /** Stands in for the PostgREST query builder, recording every call per query */
+    const createService = (rows: Partial<Article>[], count = rows.length) => {
+        const queries: Call[][] = [];
+        const client = {
+            from: () => {
+                const calls: Call[] = [];
+                queries.push(calls);
+                const builder: Record<string, unknown> = {
+                    then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null, count }),
+                };
+                for (const method of ['select', 'eq', 'gte', 'lt', 'not', 'or', 'order', 'limit', 'range', 'update', 'single', 'maybeSingle']) {
+                    builder[method] = (...args: unknown[]) => {
+                        calls.push([method, ...args]);
+                        return builder;
+                    };
+                }
+                return builder;
+            },
+        };
+
+        const service = new SupabaseService({
+            get: (key: string) => ({ SUPABASE_URL: 'http://localhost:54321', SUPABASE_SERVICE_ROLE_KEY: 'key' })[key],
+        } as unknown as ConfigService);
+        Object.assign(service, { supabase: client });
+        return { service, queries };
+    };
+
+    const options = (overrides: Partial<ArticleListOptions> = {}): ArticleListOptions => ({
+        sort: 'published_at',
+        ascending: false,
+        limit: 2,
+        ...overrides,
+    });
+
+    const calls = (query: Call[], method: string) => query.filter(([name]) => name === method).map(([, ...args]) => args);
+
+    it('bumps updated_at on every article update, so cached renders and feeds see the edit', async () => {
+        const { service, queries } = createService([]);
+
+        await service.updateArticle('article-1', { title: 'Edited' });
+        await service.updateArticleStatus('article-1', 'review', 'approved');
+
+        expect(calls(queries[0], 'update')).toEqual([[{ title: 'Edited', updated_at: expect.any(String) as unknown }]]);
+        expect(calls(queries[1], 'update')).toEqual([[{ status: 'approved', updated_at: expect.any(String) as unknown }]]);
+    });
+
+    it('pages after the cursor, breaking ties on the sort value by id', async () => {
+        const { service, queries } = createService([{ id: 'c' }, { id: 'b' }, { id: 'a' }], 3);
+
+        const result = await service.listArticles(options({ after: { value: '2026-03-01T10:00:00.000Z', id: 'd' } }));
+
+        const [page] = queries;
+        expect(calls(page, 'or')).toEqual([
+            ['published_at.lt."2026-03-01T10:00:00.000Z",and(published_at.eq."2026-03-01T10:00:00.000Z",id.lt."d")'],
+        ]);
+        expect(calls(page, 'order')).toEqual([['published_at', { ascending: false }], ['id', { ascending: false }]]);
+        expect(calls(page, 'limit')).toEqual([[3]]);
+        expect(result.articles.map(article => article.id)).toEqual(['c', 'b']);
+        expect(result.hasMore).toBe(true);
+    });
+
+    it('counts the whole result set separately when paging by cursor', async () => {
+        const { service, queries } = createService([{ id: 'a' }], 7);
+
+        const result = await service.listArticles(options({ ascending: true, after: { value: 'x', id: 'a' } }));
+
+        expect(queries).toHaveLength(2);
+        expect(calls(queries[0], 'or')[0][0]).toContain('id.gt."a"');
+        expect(calls(queries[1], 'or')).toEqual([]);
+        expect(calls(queries[1], 'select')).toEqual([[expect.any(String), { count: 'exact', head: true }]]);
+        expect(result).toMatchObject({ total: 7, hasMore: false });
+    });
+
+    it('pages by offset when there is no cursor', async () => {
+        const { service, queries } = createService([]);
+
+        await service.listArticles(options({ offset: 4 }));
+
+        expect(calls(queries[0], 'range')).toEqual([[4, 6]]);
+        expect(queries).toHaveLength(1);
+    });
+
+    it('quotes keyword and cursor values inside or() filters', async () => {
+        const { service, queries } = createService([]);
+
+        await service.listArticles(options({ sort: 'title', keyword: 'a,b"c\\', after: { value: 'Rust, (fast)', id: 'd' } }));
+
+        expect(calls(queries[0], 'or')).toEqual([[
+            'and(or(title.ilike."%a,b\\"c\\\\%",meta_description.ilike."%a,b\\"c\\\\%"),'
+            + 'or(title.lt."Rust, (fast)",and(title.eq."Rust, (fast)",id.lt."d")))',
+        ]]);
+    });
+});
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { UserRole } from '../auth/roles';
 
 export interface Article {
     id: string;
@@ -10,8 +11,12 @@ export interface Article {
     meta_description: string | null;
     keywords: string[];
     h2_structure: { h2: string; h3s: string[] }[];
-    status: 'draft' | 'processing' | 'review' | 'published';
+    status: 'draft' | 'processing' | 'review' | 'approved' | 'rejected' | 'scheduled' | 'published' | 'archived' | 'failed';
     thumbnail_url: string | null;
+    /** Dimensions, blur placeholder and WebP/AVIF variants of the thumbnail, see ImagesService */
+    thumbnail_image: Pick<ArticleImage, 'width' | 'height' | 'blur_data_url' | 'variants'> | null;
+    /** 1200x630 social card, see SocialCardsService */
+    og_image_url: string | null;
     featured: boolean;
     category_id: string | null;
     author_id: string | null;
@@ -19,6 +24,13 @@ export interface Article {
     created_at: string;
     updated_at: string;
     published_at: string | null;
+    publish_at: string | null;
+    /** Version of each prompt template that worked on the article, see PromptsService */
+    prompt_versions: Record<string, number> | null;
+    /** Language of the article, see SUPPORTED_LOCALES */
+    locale: string;
+    /** Shared by an article and its translations; the id of the original article */
+    translation_group_id: string | null;
     author?: Profile | null;
 }
 
@@ -27,16 +39,63 @@ export interface Profile {
     full_name: string | null;
     avatar_url: string | null;
     bio: string | null;
+    role: UserRole;
     updated_at: string;
     created_at: string;
 }
 
+export interface ImageVariant {
+    format: 'webp' | 'avif';
+    width: number;
+    height: number;
+    url: string;
+}
+
 export interface ArticleImage {
     id: string;
     article_id: string;
     prompt: string;
+    /** Original upload */
     storage_url: string | null;
     position: number;
+    width: number | null;
+    height: number | null;
+    /** Tiny blurred preview as a data URL */
+    blur_data_url: string | null;
+    /** Resized WebP/AVIF encodings for srcset */
+    variants: ImageVariant[];
+    created_at: string;
+}
+
+/**
+ * Published article as listed in the sitemap, with its generated images
+ */
+export interface ArticleSitemapEntry {
+    id: string;
+    slug: string;
+    title: string;
+    category_id: string | null;
+    thumbnail_url: string | null;
+    updated_at: string;
+    images: Pick<ArticleImage, 'storage_url' | 'position'>[];
+}
+
+export interface ArticleRevision {
+    id: string;
+    article_id: string;
+    title: string | null;
+    content_markdown: string;
+    source: string;
+    created_at: string;
+}
+
+export interface ArticleStatusTransition {
+    id: string;
+    article_id: string;
+    from_status: Article['status'] | null;
+    to_status: Article['status'];
+    actor: string;
+    reason: string | null;
     created_at: string;
 }
 
@@ -58,6 +117,135 @@ export interface ThemeSettings {
     updated_at: string;
 }
 
+export interface PipelineRun {
+    id: string;
+    topic: string;
+    author_id: string | null;
+    article_id: string | null;
+    /** Brand voice applied to the writing stages */
+    style_profile_id: string | null;
+    /** Language to write the article in */
+    locale: string;
+    status: 'queued' | 'running' | 'completed' | 'failed';
+    current_stage: string | null;
+    errors: string[];
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+}
+
+/**
+ * Optional settings for a new pipeline run
+ */
+export type PipelineRunOptions = Partial<Pick<PipelineRun, 'author_id' | 'style_profile_id' | 'locale'>>;
+
+/**
+ * Optional fields for a new article
+ */
+export type NewArticleOptions = Partial<Pick<Article, 'author_id' | 'locale' | 'translation_group_id'>>;
+
+export interface PipelineStageResult {
+    id: string;
+    run_id: string;
+    stage: string;
+    succeeded: boolean;
+    output: Record<string, unknown>;
+    error: string | null;
+    completed_at: string;
+}
+
+/**
+ * The single row of autonomous agent settings, see AgentService
+ */
+export interface AgentConfig {
+    id: string;
+    is_active: boolean;
+    interval_minutes: number | null;
+    last_run_at: string | null;
+    daily_budget_usd: number | null;
+    monthly_budget_usd: number | null;
+    daily_budget_tokens: number | null;
+    monthly_budget_tokens: number | null;
+}
+
+export interface LlmUsage {
+    id: string;
+    provider: string;
+    model: string;
+    llm_stage: string;
+    pipeline_stage: string | null;
+    article_id: string | null;
+    pipeline_run_id: string | null;
+    agent_run_id: string | null;
+    prompt_tokens: number;
+    completion_tokens: number;
+    image_count: number;
+    latency_ms: number;
+    cost_usd: number;
+    created_at: string;
+}
+
+/**
+ * A brand's voice and house rules, injected into the writing stages
+ */
+export interface StyleProfile {
+    id: string;
+    name: string;
+    tone: string | null;
+    audience: string | null;
+    reading_level: string | null;
+    preferred_word_count: number | null;
+    emoji_policy: 'none' | 'callouts_only' | 'allowed';
+    banned_phrases: string[];
+    required_disclaimers: string[];
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * One saved version of a prompt template; the highest version of a key is the active one
+ */
+export interface PromptTemplateVersion {
+    id: string;
+    key: string;
+    version: number;
+    template: string;
+    created_by: string | null;
+    created_at: string;
+}
+
+export type ArticleSortField = 'published_at' | 'updated_at' | 'created_at' | 'title';
+
+export interface ArticleListOptions {
+    status?: Article['status'];
+    authorId?: string;
+    categoryId?: string;
+    featured?: boolean;
+    locale?: string;
+    /** Case-insensitive match on title and meta description */
+    keyword?: string;
+    /** Date range on the sort column (created_at when sorting by title); `to` is exclusive */
+    from?: string;
+    to?: string;
+    sort: ArticleSortField;
+    ascending: boolean;
+    limit: number;
+    offset?: number;
+    /** Keyset cursor: return rows strictly after this sort value and id. Takes precedence over offset. */
+    after?: { value: string; id: string };
+    /** Include content_markdown and h2_structure */
+    full?: boolean;
+}
+
+/**
+ * Columns returned by list endpoints: everything except the article body
+ */
+export const ARTICLE_LIST_COLUMNS = [
+    'id', 'title', 'slug', 'meta_description', 'keywords', 'status', 'thumbnail_url', 'thumbnail_image', 'og_image_url', 'featured',
+    'category_id', 'author_id', 'topic', 'created_at', 'updated_at', 'published_at', 'publish_at',
+    'locale', 'translation_group_id',
+].join(', ');
+
 export interface Category {
     id: string;
     name: string;
@@ -86,7 +274,7 @@ export class SupabaseService {
 
     // ============ ARTICLES ============
 
-    async createArticle(topic: string, author_id?: string, customSlug?: string): Promise<Article> {
+    async createArticle(topic: string, options: NewArticleOptions = {}, customSlug?: string): Promise<Article> {
         const slug = customSlug
             ? this.formatCustomSlug(customSlug)
             : this.generateSlug(topic);
@@ -94,9 +282,9 @@ export class SupabaseService {
         const { data, error } = await this.supabase
             .from('articles')
             .insert({
+                ...options,
                 topic,
                 slug,
-                author_id,
                 title: topic.substring(0, 500), // Truncate to match DB limit
                 status: 'processing',
             })
@@ -111,10 +299,14 @@ export class SupabaseService {
         return data;
     }
 
-    async updateArticle(id: string, updates: Partial<Article>): Promise<Article> {
+    /**
+     * Update an article. Any change to content_markdown is also saved as a
+     * revision tagged with `revisionSource` (pipeline stage or editing user).
+     */
+    async updateArticle(id: string, updates: Partial<Article>, revisionSource = 'system'): Promise<Article> {
         const { data, error } = await this.supabase
             .from('articles')
-            .update(updates)
+            .update({ ...updates, updated_at: new Date().toISOString() })
             .eq('id', id)
             .select()
             .single();
@@ -124,6 +316,10 @@ export class SupabaseService {
             throw error;
         }
 
+        if (updates.content_markdown !== undefined && updates.content_markdown !== null) {
+            await this.createArticleRevision(data, revisionSource);
+        }
+
         return data;
     }
 
@@ -168,6 +364,76 @@ export class SupabaseService {
         return data || [];
     }
 
+    /**
+     * Filtered, sorted page of articles plus the total number of matches.
+     * Fetches one extra row so callers can tell whether another page exists.
+     */
+    async listArticles(options: ArticleListOptions): Promise<{ articles: Article[]; total: number; hasMore: boolean }> {
+        const columns = options.full ? '*' : ARTICLE_LIST_COLUMNS;
+        const dateColumn = options.sort === 'title' ? 'created_at' : options.sort;
+        const operator = options.ascending ? 'gt' : 'lt';
+
+        const build = (withCursor: boolean, head = false) => {
+            let query = this.supabase
+                .from('articles')
+                .select(columns, { count: 'exact', head });
+
+            if (options.status) query = query.eq('status', options.status);
+            if (options.authorId) query = query.eq('author_id', options.authorId);
+            if (options.categoryId) query = query.eq('category_id', options.categoryId);
+            if (options.featured !== undefined) query = query.eq('featured', options.featured);
+            if (options.locale) query = query.eq('locale', options.locale);
+            if (options.from) query = query.gte(dateColumn, options.from);
+            if (options.to) query = query.lt(dateColumn, options.to);
+            // Keyset pagination needs a non-null sort value on every row
+            if (options.sort === 'published_at') query = query.not('published_at', 'is', null);
+
+            const orGroups: string[] = [];
+            if (options.keyword) {
+                const pattern = this.quoteFilterValue(`%${options.keyword}%`);
+                orGroups.push(`title.ilike.${pattern},meta_description.ilike.${pattern}`);
+            }
+            if (withCursor && options.after) {
+                const value = this.quoteFilterValue(options.after.value);
+                const id = this.quoteFilterValue(options.after.id);
+                orGroups.push(`${options.sort}.${operator}.${value},and(${options.sort}.eq.${value},id.${operator}.${id})`);
+            }
+            if (orGroups.length === 1) {
+                query = query.or(orGroups[0]);
+            } else if (orGroups.length > 1) {
+                query = query.or(`and(${orGroups.map(group => `or(${group})`).join(',')})`);
+            }
+
+            return query;
+        };
+
+        let page = build(true)
+            .order(options.sort, { ascending: options.ascending })
+            .order('id', { ascending: options.ascending });
+
+        page = options.after
+            ? page.limit(options.limit + 1)
+            : page.range(options.offset ?? 0, (options.offset ?? 0) + options.limit);
+
+        const { data, error, count } = await page;
+        if (error) throw error;
+
+        let total = count ?? 0;
+        if (options.after) {
+            // The page count excludes rows before the cursor; count the whole result set
+            const { error: countError, count: fullCount } = await build(false, true);
+            if (countError) throw countError;
+            total = fullCount ?? 0;
+        }
+
+        const rows = (data || []) as unknown as Article[];
+        return {
+            articles: rows.slice(0, options.limit),
+            total,
+            hasMore: rows.length > options.limit,
+        };
+    }
+
     async getAllArticles(): Promise<Article[]> {
         const { data, error } = await this.supabase
             .from('articles')
@@ -187,23 +453,119 @@ export class SupabaseService {
         return data || [];
     }
 
+    /**
+     * Every published article with its body and author name, for the search index.
+     * Pages through the table since PostgREST caps responses at 1000 rows.
+     */
+    async getPublishedArticlesForSearch(): Promise<Article[]> {
+        const pageSize = 1000;
+        const articles: Article[] = [];
+
+        for (let from = 0; ; from += pageSize) {
+            const { data, error } = await this.supabase
+                .from('articles')
+                .select('id, title, slug, meta_description, keywords, content_markdown, category_id, author_id, published_at, thumbnail_url, locale, author:profiles(id, full_name)')
+                .eq('status', 'published')
+                .order('id', { ascending: true })
+                .range(from, from + pageSize - 1);
+
+            if (error) throw error;
+            articles.push(...((data || []) as unknown as Article[]));
+            if (!data || data.length < pageSize) break;
+        }
+
+        return articles;
+    }
+
+    /**
+     * Every published article with its image URLs, for the sitemap.
+     * Pages through the table like getPublishedArticlesForSearch.
+     */
+    async getPublishedArticlesForSitemap(): Promise<ArticleSitemapEntry[]> {
+        const pageSize = 1000;
+        const entries: ArticleSitemapEntry[] = [];
+
+        for (let from = 0; ; from += pageSize) {
+            const { data, error } = await this.supabase
+                .from('articles')
+                .select('id, slug, title, category_id, thumbnail_url, updated_at, images:article_images(storage_url, position)')
+                .eq('status', 'published')
+                .order('id', { ascending: true })
+                .range(from, from + pageSize - 1);
+
+            if (error) throw error;
+            entries.push(...((data || []) as unknown as ArticleSitemapEntry[]));
+            if (!data || data.length < pageSize) break;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Every language variant in a translation group, including the original
+     */
+    async getTranslationVariants(groupId: string): Promise<Pick<Article, 'id' | 'slug' | 'locale' | 'status' | 'translation_group_id'>[]> {
+        const { data, error } = await this.supabase
+            .from('articles')
+            .select('id, slug, locale, status, translation_group_id')
+            .or(`id.eq.${groupId},translation_group_id.eq.${groupId}`);
+
+        if (error) throw error;
+        return data || [];
+    }
+
     async getFeaturedArticles(): Promise<Article[]> {
         const { data, error } = await this.supabase
             .from('articles')
-            .select('*')
+            .select(ARTICLE_LIST_COLUMNS)
             .eq('status', 'published')
             .eq('featured', true)
             .order('published_at', { ascending: false });
 
         if (error) throw error;
-        return data || [];
+        return (data || []) as unknown as Article[];
     }
 
-    async publishArticle(id: string): Promise<Article> {
-        return this.updateArticle(id, {
-            status: 'published',
-            published_at: new Date().toISOString(),
-        } as Partial<Article>);
+    /**
+     * Change an article's status, but only if it is still in `from`.
+     * Returns null when another writer changed the status first.
+     * Callers go through ArticleWorkflowService, which validates the transition.
+     */
+    async updateArticleStatus(
+        id: string,
+        from: Article['status'],
+        to: Article['status'],
+        updates: Partial<Article> = {},
+    ): Promise<Article | null> {
+        const { data, error } = await this.supabase
+            .from('articles')
+            .update({ ...updates, status: to, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('status', from)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            this.logger.error('Failed to update article status', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    /**
+     * Scheduled articles whose publish_at has passed, oldest first
+     */
+    async getDueScheduledArticles(now: string): Promise<Article[]> {
+        const { data, error } = await this.supabase
+            .from('articles')
+            .select('*')
+            .eq('status', 'scheduled')
+            .lte('publish_at', now)
+            .order('publish_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
     }
 
     async deleteArticle(id: string): Promise<void> {
@@ -215,6 +577,27 @@ export class SupabaseService {
         if (error) throw error;
     }
 
+    /**
+     * Record which version of a prompt template worked on an article
+     */
+    async setArticlePromptVersion(articleId: string, key: string, version: number): Promise<void> {
+        const { data, error } = await this.supabase
+            .from('articles')
+            .select('prompt_versions')
+            .eq('id', articleId)
+            .single();
+
+        if (error) throw error;
+        const current = (data as Pick<Article, 'prompt_versions'>).prompt_versions;
+
+        const { error: updateError } = await this.supabase
+            .from('articles')
+            .update({ prompt_versions: { ...current, [key]: version } })
+            .eq('id', articleId);
+
+        if (updateError) throw updateError;
+    }
+
     async getAllArticleTitles(): Promise<string[]> {
         const { data, error } = await this.supabase
             .from('articles')
@@ -224,6 +607,89 @@ export class SupabaseService {
         return (data || []).map(a => a.title);
     }
 
+    // ============ STATUS TRANSITIONS ============
+
+    async createStatusTransition(transition: Omit<ArticleStatusTransition, 'id' | 'created_at'>): Promise<ArticleStatusTransition> {
+        const { data, error } = await this.supabase
+            .from('article_status_transitions')
+            .insert(transition)
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to record status transition', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    /**
+     * Status history for an article, oldest first
+     */
+    async getStatusTransitions(articleId: string): Promise<ArticleStatusTransition[]> {
+        const { data, error } = await this.supabase
+            .from('article_status_transitions')
+            .select('*')
+            .eq('article_id', articleId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    // ============ REVISIONS ============
+
+    async createArticleRevision(article: Article, source: string): Promise<ArticleRevision> {
+        const { data, error } = await this.supabase
+            .from('article_revisions')
+            .insert({
+                article_id: article.id,
+                title: article.title,
+                content_markdown: article.content_markdown,
+                source,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to save article revision', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    /**
+     * List revisions newest first, without their content
+     */
+    async getArticleRevisions(articleId: string): Promise<Omit<ArticleRevision, 'content_markdown'>[]> {
+        const { data, error } = await this.supabase
+            .from('article_revisions')
+            .select('id, article_id, title, source, created_at')
+            .eq('article_id', articleId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async getArticleRevision(articleId: string, revisionId: string): Promise<ArticleRevision | null> {
+        const { data, error } = await this.supabase
+            .from('article_revisions')
+            .select('*')
+            .eq('article_id', articleId)
+            .eq('id', revisionId)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') return null;
+            throw error;
+        }
+
+        return data;
+    }
+
     // ============ IMAGES ============
 
     async createArticleImage(
@@ -245,10 +711,13 @@ export class SupabaseService {
         return data;
     }
 
-    async updateImageUrl(imageId: string, storageUrl: string): Promise<void> {
+    async updateArticleImage(
+        imageId: string,
+        updates: Partial<Pick<ArticleImage, 'prompt' | 'storage_url' | 'width' | 'height' | 'blur_data_url' | 'variants'>>,
+    ): Promise<void> {
         const { error } = await this.supabase
             .from('article_images')
-            .update({ storage_url: storageUrl })
+            .update(updates)
             .eq('id', imageId);
 
         if (error) throw error;
@@ -265,17 +734,39 @@ export class SupabaseService {
         return data || [];
     }
 
+    async getArticleImage(articleId: string, imageId: string): Promise<ArticleImage | null> {
+        const { data, error } = await this.supabase
+            .from('article_images')
+            .select('*')
+            .eq('article_id', articleId)
+            .eq('id', imageId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteArticleImages(articleId: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('article_images')
+            .delete()
+            .eq('article_id', articleId);
+
+        if (error) throw error;
+    }
+
     async uploadImage(
         articleId: string,
         imageBuffer: Buffer,
-        filename: string
+        filename: string,
+        contentType = 'image/png',
     ): Promise<string> {
         const path = `articles/${articleId}/${filename}`;
 
         const { error } = await this.supabase.storage
             .from('blog-images')
             .upload(path, imageBuffer, {
-                contentType: 'image/png',
+                contentType,
                 upsert: true,
             });
 
@@ -322,6 +813,15 @@ export class SupabaseService {
         return data || [];
     }
 
+    async deleteArticleComponents(articleId: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('article_components')
+            .delete()
+            .eq('article_id', articleId);
+
+        if (error) throw error;
+    }
+
     // ============ THEME ============
 
     async getTheme(): Promise<ThemeSettings | null> {
@@ -357,8 +857,325 @@ export class SupabaseService {
         return data;
     }
 
+    // ============ PIPELINE RUNS ============
+
+    async createPipelineRun(
+        topic: string,
+        options: PipelineRunOptions = {},
+        status: PipelineRun['status'] = 'running',
+    ): Promise<PipelineRun> {
+        const { data, error } = await this.supabase
+            .from('pipeline_runs')
+            .insert({
+                topic,
+                ...options,
+                status,
+                errors: [],
+            })
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to create pipeline run', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async getPipelineRun(id: string): Promise<PipelineRun | null> {
+        const { data, error } = await this.supabase
+            .from('pipeline_runs')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') return null;
+            throw error;
+        }
+
+        return data;
+    }
+
+    /**
+     * Runs still waiting to start, oldest first
+     */
+    async getQueuedPipelineRuns(): Promise<PipelineRun[]> {
+        const { data, error } = await this.supabase
+            .from('pipeline_runs')
+            .select('*')
+            .eq('status', 'queued')
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async updatePipelineRun(id: string, updates: Partial<PipelineRun>): Promise<PipelineRun> {
+        const { data, error } = await this.supabase
+            .from('pipeline_runs')
+            .update({
+                ...updates,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to update pipeline run', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    /**
+     * Mark a run as running, but only if it is still in `from` and, when
+     * `updatedBefore` is given, hasn't been touched since then.
+     * Returns null when the run is not in that state, so only one caller can claim it.
+     */
+    async claimPipelineRun(id: string, from: PipelineRun['status'], updatedBefore?: string): Promise<PipelineRun | null> {
+        let query = this.supabase
+            .from('pipeline_runs')
+            .update({
+                status: 'running',
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', id)
+            .eq('status', from);
+        if (updatedBefore) query = query.lt('updated_at', updatedBefore);
+
+        const { data, error } = await query.select().maybeSingle();
+
+        if (error) {
+            this.logger.error('Failed to claim pipeline run', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async savePipelineStageResult(
+        runId: string,
+        stage: string,
+        succeeded: boolean,
+        output: Record<string, unknown>,
+        stageError?: string,
+    ): Promise<PipelineStageResult> {
+        const { data, error } = await this.supabase
+            .from('pipeline_stage_results')
+            .upsert(
+                {
+                    run_id: runId,
+                    stage,
+                    succeeded,
+                    output,
+                    error: stageError || null,
+                    completed_at: new Date().toISOString(),
+                },
+                { onConflict: 'run_id,stage' },
+            )
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error(`Failed to save checkpoint for stage ${stage}`, error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async getPipelineStageResults(runId: string): Promise<PipelineStageResult[]> {
+        const { data, error } = await this.supabase
+            .from('pipeline_stage_results')
+            .select('*')
+            .eq('run_id', runId)
+            .order('completed_at', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    // ============ LLM USAGE ============
+
+    async recordLlmUsage(entry: Omit<LlmUsage, 'id' | 'created_at'>): Promise<void> {
+        const { error } = await this.supabase
+            .from('llm_usage')
+            .insert(entry);
+
+        if (error) {
+            this.logger.error('Failed to record LLM usage', error);
+            throw error;
+        }
+    }
+
+    async getLlmUsage(filter: {
+        articleId?: string;
+        agentRunId?: string;
+        agentRunsOnly?: boolean;
+        from?: string;
+        to?: string;
+    }): Promise<LlmUsage[]> {
+        const pageSize = 1000; // PostgREST default max rows per request
+        const rows: LlmUsage[] = [];
+
+        for (let offset = 0; ; offset += pageSize) {
+            let query = this.supabase
+                .from('llm_usage')
+                .select('*')
+                .order('created_at', { ascending: true })
+                .range(offset, offset + pageSize - 1);
+
+            if (filter.articleId) query = query.eq('article_id', filter.articleId);
+            if (filter.agentRunId) query = query.eq('agent_run_id', filter.agentRunId);
+            if (filter.agentRunsOnly) query = query.not('agent_run_id', 'is', null);
+            if (filter.from) query = query.gte('created_at', filter.from);
+            if (filter.to) query = query.lt('created_at', filter.to);
+
+            const { data, error } = await query;
+
+            if (error) throw error;
+            rows.push(...(data || []));
+            if (!data || data.length < pageSize) break;
+        }
+
+        return rows;
+    }
+
+    // ============ STYLE PROFILES ============
+
+    async getStyleProfiles(): Promise<StyleProfile[]> {
+        const { data, error } = await this.supabase
+            .from('style_profiles')
+            .select('*')
+            .order('name', { ascending: true });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async getStyleProfile(id: string): Promise<StyleProfile | null> {
+        const { data, error } = await this.supabase
+            .from('style_profiles')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async createStyleProfile(
+        profile: Omit<StyleProfile, 'id' | 'created_at' | 'updated_at'>,
+    ): Promise<StyleProfile> {
+        const { data, error } = await this.supabase
+            .from('style_profiles')
+            .insert(profile)
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to create style profile', error);
+            throw error;
+        }
+
+        return data;
+    }
+
+    async updateStyleProfile(id: string, updates: Partial<StyleProfile>): Promise<StyleProfile | null> {
+        const { data, error } = await this.supabase
+            .from('style_profiles')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteStyleProfile(id: string): Promise<boolean> {
+        const { data, error } = await this.supabase
+            .from('style_profiles')
+            .delete()
+            .eq('id', id)
+            .select('id');
+
+        if (error) throw error;
+        return (data || []).length > 0;
+    }
+
+    // ============ PROMPT TEMPLATES ============
+
+    async getLatestPromptTemplate(key: string): Promise<PromptTemplateVersion | null> {
+        const { data, error } = await this.supabase
+            .from('prompt_templates')
+            .select('*')
+            .eq('key', key)
+            .order('version', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Every saved version of a prompt, newest first
+     */
+    async getPromptTemplateVersions(key: string): Promise<PromptTemplateVersion[]> {
+        const { data, error } = await this.supabase
+            .from('prompt_templates')
+            .select('*')
+            .eq('key', key)
+            .order('version', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    /**
+     * Every saved version of every prompt, newest first
+     */
+    async getAllPromptTemplates(): Promise<PromptTemplateVersion[]> {
+        const { data, error } = await this.supabase
+            .from('prompt_templates')
+            .select('*')
+            .order('version', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async createPromptTemplateVersion(
+        entry: Omit<PromptTemplateVersion, 'id' | 'created_at'>,
+    ): Promise<PromptTemplateVersion> {
+        const { data, error } = await this.supabase
+            .from('prompt_templates')
+            .insert(entry)
+            .select()
+            .single();
+
+        if (error) {
+            this.logger.error('Failed to save prompt template', error);
+            throw error;
+        }
+
+        return data;
+    }
+
     // ============ HELPERS ============
 
+    /**
+     * Quote a value for use inside a PostgREST or() filter
+     */
+    private quoteFilterValue(value: string): string {
+        return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    }
+
     private formatCustomSlug(slug: string): string {
         const cleanSlug = slug
             .toLowerCase()
@@ -563,6 +1380,16 @@ export class SupabaseService {
 
     // ============ PROFILES ============
 
+    /**
+     * Verify a Supabase access token and return the user it belongs to,
+     * or null if the token is invalid or expired
+     */
+    async getUserFromToken(token: string): Promise<{ id: string; email: string | null } | null> {
+        const { data, error } = await this.supabase.auth.getUser(token);
+        if (error || !data.user) return null;
+        return { id: data.user.id, email: data.user.email ?? null };
+    }
+
     async getProfile(id: string): Promise<Profile | null> {
         const { data, error } = await this.supabase
             .from('profiles')
@@ -0,0 +1,34 @@
+import { buildHreflangAlternates } from './hreflang';
+import type { TranslationVariant } from './hreflang';
+
+describe('buildHreflangAlternates', () => {
+    const articleUrl = (slug: string) => `https://blog.example.com/articles/${slug}`;
+    const variant = (id: string, locale: string, slug: string): TranslationVariant => ({
+        id,
+        slug,
+        locale,
+        status: 'published',
+        translation_group_id: 'article-en',
+    });
+
+    it('lists every variant by locale with the original as x-default', () => {
+        const alternates = buildHreflangAlternates([
+            variant('article-ta', 'ta', 'mazhai-kaalam'),
+            variant('article-en', 'en', 'monsoon-season'),
+            variant('article-si', 'si', 'wessa-samaya'),
+        ], articleUrl);
+
+        expect(alternates.map(({ hreflang, href }) => [hreflang, href])).toEqual([
+            ['en', 'https://blog.example.com/articles/monsoon-season'],
+            ['si', 'https://blog.example.com/articles/wessa-samaya'],
+            ['ta', 'https://blog.example.com/articles/mazhai-kaalam'],
+            ['x-default', 'https://blog.example.com/articles/monsoon-season'],
+        ]);
+    });
+
+    it('omits x-default when the original is not among the variants', () => {
+        const alternates = buildHreflangAlternates([variant('article-si', 'si', 'wessa-samaya')], articleUrl);
+
+        expect(alternates.map(alternate => alternate.hreflang)).toEqual(['si']);
+    });
+});
@@ -0,0 +1,36 @@
+import type { Article } from '../supabase/supabase.service';
+
+export type TranslationVariant = Pick<Article, 'id' | 'slug' | 'locale' | 'status' | 'translation_group_id'>;
+
+export interface HreflangAlternate {
+    /** Locale code, or `x-default` for the article the translations were made from */
+    hreflang: string;
+    href: string;
+    article_id: string;
+    slug: string;
+}
+
+/**
+ * `<link rel="alternate" hreflang>` entries for every variant of an article,
+ * itself included, plus `x-default` pointing at the original
+ */
+export function buildHreflangAlternates(
+    variants: TranslationVariant[],
+    articleUrl: (slug: string) => string,
+): HreflangAlternate[] {
+    const toAlternate = (variant: TranslationVariant, hreflang: string): HreflangAlternate => ({
+        hreflang,
+        href: articleUrl(variant.slug),
+        article_id: variant.id,
+        slug: variant.slug,
+    });
+
+    const alternates = [...variants]
+        .sort((a, b) => a.locale.localeCompare(b.locale))
+        .map(variant => toAlternate(variant, variant.locale));
+
+    const original = variants.find(variant => variant.id === variant.translation_group_id);
+    if (original) alternates.push(toAlternate(original, 'x-default'));
+
+    return alternates;
+}
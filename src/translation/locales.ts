@@ -0,0 +1,22 @@
+/**
+ * Languages articles can be written in. `name` is the English name, used in
+ * prompts; codes double as hreflang values.
+ */
+export const LOCALES = {
+    en: { name: 'English', nativeName: 'English' },
+    si: { name: 'Sinhala', nativeName: 'සිංහල' },
+    ta: { name: 'Tamil', nativeName: 'தமிழ்' },
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * English name of a locale for prompts, or the code itself if it's unknown
+ */
+export function languageName(locale: string): string {
+    return locale in LOCALES ? LOCALES[locale as Locale].name : locale;
+}
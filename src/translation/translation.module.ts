@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TranslationService } from './translation.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { GeminiModule } from '../gemini/gemini.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { SiteModule } from '../site/site.module';
+
+@Module({
+    imports: [SupabaseModule, GeminiModule, WorkflowModule, SiteModule],
+    providers: [TranslationService],
+    exports: [TranslationService],
+})
+export class TranslationModule { }
@@ -0,0 +1,134 @@
+import { HttpStatus } from '@nestjs/common';
+import { Article, SupabaseService } from '../supabase/supabase.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { SiteService } from '../site/site.service';
+import { AuthenticatedUser } from '../auth/roles';
+import { TranslationService } from './translation.service';
+
+describe('TranslationService', () => {
+    const editor = { id: 'editor-1', role: 'editor' } as AuthenticatedUser;
+
+    const article = (overrides: Partial<Article> = {}) => ({
+        id: 'article-en',
+        title: 'Monsoon season',
+        slug: 'monsoon-season',
+        topic: 'Monsoon season',
+        content_markdown: '# Monsoon season\n\n![Rain](https://cdn.example.com/rain.webp)',
+        meta_description: 'When the rains come',
+        keywords: ['monsoon'],
+        h2_structure: [],
+        status: 'published',
+        locale: 'en',
+        translation_group_id: null,
+        author_id: 'author-1',
+        category_id: 'category-1',
+        thumbnail_url: 'https://cdn.example.com/rain.webp',
+        ...overrides,
+    }) as Article;
+
+    const createService = (source: Article | null, variants: Partial<Article>[] = []) => {
+        const supabase = {
+            getArticle: jest.fn().mockResolvedValue(source),
+            getArticleBySlug: jest.fn().mockResolvedValue(null),
+            getTranslationVariants: jest.fn().mockResolvedValue(variants),
+            updateArticle: jest.fn().mockResolvedValue({}),
+            createArticle: jest.fn().mockResolvedValue(article({ id: 'article-si', status: 'processing', locale: 'si' })),
+            deleteArticle: jest.fn().mockResolvedValue(undefined),
+            getArticleComponents: jest.fn().mockResolvedValue([
+                { id: 'component-1', component_type: 'checklist', config: { title: 'Pack' } },
+            ]),
+            createComponent: jest.fn().mockResolvedValue({}),
+            getArticleImages: jest.fn().mockResolvedValue([]),
+        };
+        const gemini = {
+            translateMarkdown: jest.fn().mockResolvedValue('# වැසි සමය'),
+            translateMetadata: jest.fn().mockResolvedValue({
+                title: 'වැසි සමය',
+                slug: 'wessa-samaya',
+                metaDescription: 'වැසි එන විට',
+                keywords: ['මෝසම් වැසි'],
+                h2Structure: [],
+            }),
+            translateComponentConfig: jest.fn().mockRejectedValue(new Error('Invalid JSON')),
+        };
+        const workflow = {
+            recordCreated: jest.fn().mockResolvedValue(undefined),
+            transition: jest.fn().mockResolvedValue(article({ id: 'article-si', status: 'review', locale: 'si' })),
+        };
+        const service = new TranslationService(
+            supabase as unknown as SupabaseService,
+            gemini as unknown as GeminiService,
+            workflow as unknown as ArticleWorkflowService,
+            {} as SiteService,
+        );
+        return { service, supabase, gemini, workflow };
+    };
+
+    it('creates a linked variant in review with translated metadata and a localized slug', async () => {
+        const { service, supabase, workflow } = createService(article());
+
+        const result = await service.translate('article-en', 'si', editor);
+
+        expect(result?.status).toBe('review');
+        expect(supabase.updateArticle).toHaveBeenCalledWith('article-en', { translation_group_id: 'article-en' });
+        expect(supabase.createArticle).toHaveBeenCalledWith('Monsoon season', {
+            author_id: 'author-1',
+            locale: 'si',
+            translation_group_id: 'article-en',
+        });
+        expect(supabase.updateArticle).toHaveBeenCalledWith('article-si', expect.objectContaining({
+            title: 'වැසි සමය',
+            slug: 'wessa-samaya-si',
+            content_markdown: '# වැසි සමය',
+            keywords: ['මෝසම් වැසි'],
+            category_id: 'category-1',
+        }), 'user:editor-1');
+        expect(workflow.transition).toHaveBeenCalledWith('article-si', 'review', expect.objectContaining({ actor: 'user:editor-1' }));
+    });
+
+    it('keeps a component in its original language when it fails to translate', async () => {
+        const { service, supabase } = createService(article());
+
+        await service.translate('article-en', 'si', editor);
+
+        expect(supabase.createComponent).toHaveBeenCalledWith('article-si', 'checklist', { title: 'Pack' });
+    });
+
+    it('rejects the article\'s own locale with 400 and an existing variant with 409', async () => {
+        await expect(createService(article()).service.translate('article-en', 'en', editor))
+            .rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+
+        const { service, supabase } = createService(article(), [{ id: 'article-ta', locale: 'ta' }]);
+        await expect(service.translate('article-en', 'ta', editor)).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+        expect(supabase.createArticle).not.toHaveBeenCalled();
+    });
+
+    it('numbers the localized slug only when it is taken', async () => {
+        const { service, supabase } = createService(article());
+        supabase.getArticleBySlug.mockImplementation((slug: string) =>
+            Promise.resolve(slug === 'wessa-samaya-si' ? article({ id: 'other' }) : null));
+
+        await service.translate('article-en', 'si', editor);
+
+        expect(supabase.updateArticle).toHaveBeenCalledWith('article-si', expect.objectContaining({
+            slug: 'wessa-samaya-si-2',
+        }), 'user:editor-1');
+    });
+
+    it('maps a concurrent translation into the same locale to 409', async () => {
+        const { service, supabase, gemini } = createService(article());
+        supabase.createArticle.mockRejectedValue({ code: '23505', message: 'duplicate key value' });
+
+        await expect(service.translate('article-en', 'si', editor)).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+        expect(gemini.translateMarkdown).not.toHaveBeenCalled();
+    });
+
+    it('deletes the variant when translation fails', async () => {
+        const { service, supabase, gemini } = createService(article());
+        gemini.translateMarkdown.mockRejectedValue(new Error('Quota exceeded'));
+
+        await expect(service.translate('article-en', 'si', editor)).rejects.toThrow('Quota exceeded');
+        expect(supabase.deleteArticle).toHaveBeenCalledWith('article-si');
+    });
+});
@@ -0,0 +1,179 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { SupabaseService, Article } from '../supabase/supabase.service';
+import { GeminiService } from '../gemini/gemini.service';
+import { ArticleWorkflowService } from '../workflow/article-workflow.service';
+import { SiteService } from '../site/site.service';
+import { runWithUsageContext } from '../usage/usage-context';
+import type { AuthenticatedUser } from '../auth/roles';
+import { buildHreflangAlternates } from './hreflang';
+import type { HreflangAlternate } from './hreflang';
+import { languageName } from './locales';
+
+const MAX_SLUG_ATTEMPTS = 10;
+
+/**
+ * Creates translated variants of an article. Variants are separate articles
+ * that share the original's id as their translation_group_id, reuse its
+ * images and carry translated copies of its interactive components.
+ */
+@Injectable()
+export class TranslationService {
+    private readonly logger = new Logger(TranslationService.name);
+
+    constructor(
+        private supabaseService: SupabaseService,
+        private geminiService: GeminiService,
+        private workflowService: ArticleWorkflowService,
+        private siteService: SiteService,
+    ) { }
+
+    /**
+     * Translate an article into another locale. The translation starts in review.
+     * Returns null if the article does not exist; throws 400 for its own locale
+     * and 409 if the article already has a variant in that locale (the unique
+     * (translation_group_id, locale) index catches concurrent requests).
+     */
+    async translate(articleId: string, locale: string, user: AuthenticatedUser): Promise<Article | null> {
+        const source = await this.supabaseService.getArticle(articleId);
+        if (!source) return null;
+
+        if (source.locale === locale) {
+            throw new HttpException(`Article is already in ${languageName(locale)}`, HttpStatus.BAD_REQUEST);
+        }
+        if (!source.content_markdown) {
+            throw new HttpException('Article has no content to translate', HttpStatus.BAD_REQUEST);
+        }
+
+        const groupId = source.translation_group_id ?? source.id;
+        const variants = await this.supabaseService.getTranslationVariants(groupId);
+        const existing = variants.find(variant => variant.locale === locale);
+        if (existing) {
+            throw new HttpException(
+                `Article already has a ${languageName(locale)} translation (${existing.id})`,
+                HttpStatus.CONFLICT,
+            );
+        }
+
+        if (!source.translation_group_id) {
+            await this.supabaseService.updateArticle(source.id, { translation_group_id: groupId });
+        }
+
+        const actor = `user:${user.id}`;
+        let article: Article;
+        try {
+            article = await this.supabaseService.createArticle(source.topic ?? source.title, {
+                author_id: source.author_id ?? undefined,
+                locale,
+                translation_group_id: groupId,
+            });
+        } catch (error) {
+            if ((error as { code?: string }).code === '23505') { // Unique violation
+                throw new HttpException(
+                    `Article is already being translated into ${languageName(locale)}`,
+                    HttpStatus.CONFLICT,
+                );
+            }
+            throw error;
+        }
+        await this.workflowService.recordCreated(article, actor);
+
+        try {
+            const translated = await runWithUsageContext(
+                { articleId: article.id },
+                () => this.translateContent(source, article.id, locale),
+            );
+
+            await this.supabaseService.updateArticle(article.id, translated, actor);
+            await this.copyImages(source.id, article.id);
+
+            this.logger.log(`Translated article ${source.id} into ${locale} as ${article.id}`);
+            return await this.workflowService.transition(article.id, 'review', {
+                actor,
+                reason: `Translated from article ${source.id}`,
+            }) ?? article;
+        } catch (error) {
+            // Don't leave a half-translated variant blocking a retry
+            await this.supabaseService.deleteArticle(article.id);
+            throw error;
+        }
+    }
+
+    /**
+     * hreflang alternates for an article's translation group. Public pages
+     * pass `publishedOnly` so unpublished variants are not linked.
+     */
+    async getAlternates(article: Article, publishedOnly = false): Promise<HreflangAlternate[]> {
+        if (!article.translation_group_id) return [];
+
+        const variants = await this.supabaseService.getTranslationVariants(article.translation_group_id);
+        return buildHreflangAlternates(
+            publishedOnly ? variants.filter(variant => variant.status === 'published') : variants,
+            slug => this.siteService.articleUrl(slug),
+        );
+    }
+
+    /**
+     * Translate the body, metadata and components. Components are created on the
+     * new article as they are translated; a component that fails to translate
+     * keeps its original text rather than failing the translation.
+     */
+    private async translateContent(source: Article, articleId: string, locale: string): Promise<Partial<Article>> {
+        const [content, metadata] = await Promise.all([
+            this.geminiService.translateMarkdown(source.content_markdown as string, locale),
+            this.geminiService.translateMetadata(source, locale),
+        ]);
+
+        const components = await this.supabaseService.getArticleComponents(source.id);
+        for (const component of components) {
+            let config = component.config;
+            try {
+                config = await this.geminiService.translateComponentConfig(component.component_type, component.config, locale);
+            } catch (error) {
+                this.logger.warn(`Failed to translate ${component.component_type} component ${component.id}, keeping the original`, error);
+            }
+            await this.supabaseService.createComponent(articleId, component.component_type, config);
+        }
+
+        return {
+            title: metadata.title,
+            slug: await this.localizedSlug(metadata.slug, locale),
+            content_markdown: content,
+            meta_description: metadata.metaDescription ?? null,
+            keywords: metadata.keywords,
+            h2_structure: metadata.h2Structure,
+            category_id: source.category_id,
+            thumbnail_url: source.thumbnail_url,
+            thumbnail_image: source.thumbnail_image,
+        };
+    }
+
+    /**
+     * `<slug>-<locale>`, numbered only if another article already has it,
+     * so a retried translation gets the same URL
+     */
+    private async localizedSlug(slug: string, locale: string): Promise<string> {
+        const base = `${slug}-${locale}`;
+        for (let n = 1; n <= MAX_SLUG_ATTEMPTS; n++) {
+            const candidate = n === 1 ? base : `${base}-${n}`;
+            if (!await this.supabaseService.getArticleBySlug(candidate)) return candidate;
+        }
+        return `${base}-${Date.now().toString(36)}`;
+    }
+
+    /**
+     * Point the variant at the original's stored images, so both share the same files
+     */
+    private async copyImages(sourceId: string, articleId: string) {
+        const images = await this.supabaseService.getArticleImages(sourceId);
+        for (const image of images) {
+            const copy = await this.supabaseService.createArticleImage(articleId, image.prompt, image.position);
+            await this.supabaseService.updateArticleImage(copy.id, {
+                storage_url: image.storage_url,
+                width: image.width,
+                height: image.height,
+                blur_data_url: image.blur_data_url,
+                variants: image.variants,
+            });
+        }
+    }
+}
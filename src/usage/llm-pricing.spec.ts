@@ -0,0 +1,17 @@
+import { calculateCost, DEFAULT_MODEL_PRICING } from './llm-pricing';
+
+describe('calculateCost', () => {
+    it('prices tokens per million and images per image', () => {
+        expect(calculateCost(DEFAULT_MODEL_PRICING['gemini-2.0-flash'], 10_000, 2_000, 0)).toBe(0.0018);
+        expect(calculateCost(DEFAULT_MODEL_PRICING['dall-e-3'], 0, 0, 2)).toBe(0.08);
+    });
+
+    it('rounds to the six decimals the database stores', () => {
+        expect(calculateCost(DEFAULT_MODEL_PRICING['gemini-2.0-flash-lite'], 1, 1, 0)).toBe(0);
+        expect(calculateCost(DEFAULT_MODEL_PRICING['gemini-2.0-flash-lite'], 7, 0, 0)).toBe(0.000001);
+    });
+
+    it('charges nothing for unpriced models', () => {
+        expect(calculateCost(undefined, 1_000_000, 1_000_000, 1)).toBe(0);
+    });
+});
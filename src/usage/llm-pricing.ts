@@ -0,0 +1,40 @@
+/**
+ * Prices in USD. Token prices are per million tokens.
+ */
+export interface ModelPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage: number;
+}
+
+/**
+ * Published list prices at the time of writing. Override or extend with
+ * LLM_PRICING_JSON, e.g. {"gemini-2.0-flash":{"inputPerMillion":0.1,"outputPerMillion":0.4,"perImage":0}}
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4, perImage: 0 },
+    'gemini-2.0-flash-lite': { inputPerMillion: 0.075, outputPerMillion: 0.3, perImage: 0 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10, perImage: 0 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, perImage: 0 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10, perImage: 0 },
+    'dall-e-3': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+};
+
+export function calculateCost(
+    pricing: ModelPricing | undefined,
+    promptTokens: number,
+    completionTokens: number,
+    imageCount: number,
+): number {
+    if (!pricing) return 0;
+
+    const cost =
+        (promptTokens / 1_000_000) * pricing.inputPerMillion +
+        (completionTokens / 1_000_000) * pricing.outputPerMillion +
+        imageCount * pricing.perImage;
+
+    // Stored as numeric(12,6)
+    return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * What an LLM call is being made for. Set by the pipeline and the agent
+ * around their work so GeminiService can attribute usage without every
+ * prompt method taking extra parameters.
+ */
+export interface UsageContext {
+    articleId?: string;
+    pipelineRunId?: string;
+    pipelineStage?: string;
+    agentRunId?: string;
+    /**
+     * Collects the versions of prompts rendered before the article exists
+     * (such as the slug prompt), for the caller to record once it does
+     */
+    promptVersions?: Record<string, number>;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run `fn` with the given context merged over the current one
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+    return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getUsageContext(): UsageContext {
+    return storage.getStore() ?? {};
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, Query, HttpException, HttpStatus } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { Roles } from '../auth/auth.decorators';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Controller('usage')
+export class UsageController {
+    constructor(private readonly usageService: UsageService) { }
+
+    /**
+     * GET /api/usage/daily?from=YYYY-MM-DD&to=YYYY-MM-DD
+     * Daily LLM spend report (defaults to the last 30 days, `to` inclusive)
+     */
+    @Get('daily')
+    @Roles('admin')
+    async getDailySpend(
+        @Query('from') from?: string,
+        @Query('to') to?: string,
+    ) {
+        const today = new Date(new Date().toISOString().substring(0, 10));
+        const end = to ? new Date(to) : today;
+        const start = from ? new Date(from) : new Date(end.getTime() - 29 * DAY_MS);
+
+        if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) {
+            throw new HttpException('Invalid date range', HttpStatus.BAD_REQUEST);
+        }
+
+        const exclusiveEnd = new Date(end.getTime() + DAY_MS);
+        const days = await this.usageService.getDailySpend(start, exclusiveEnd);
+        const totalCostUsd = days.reduce((sum, day) => sum + day.costUsd, 0);
+
+        return {
+            success: true,
+            data: {
+                from: start.toISOString().substring(0, 10),
+                to: end.toISOString().substring(0, 10),
+                totalCostUsd: Math.round(totalCostUsd * 1_000_000) / 1_000_000,
+                days,
+            },
+        };
+    }
+}
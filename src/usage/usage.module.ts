@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+    imports: [ConfigModule, SupabaseModule, AuthModule],
+    controllers: [UsageController],
+    providers: [UsageService],
+    exports: [UsageService],
+})
+export class UsageModule { }
@@ -0,0 +1,139 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmUsage, SupabaseService } from '../supabase/supabase.service';
+import { UsageService, LlmCallUsage } from './usage.service';
+import { getUsageContext, runWithUsageContext } from './usage-context';
+
+describe('UsageService', () => {
+    const call = (overrides: Partial<LlmCallUsage> = {}): LlmCallUsage => ({
+        provider: 'gemini',
+        model: 'gemini-2.0-flash',
+        llmStage: 'writing',
+        promptTokens: 1_000,
+        completionTokens: 500,
+        imageCount: 0,
+        latencyMs: 1200,
+        ...overrides,
+    });
+
+    const createService = (config: Record<string, string> = {}, usage: Partial<LlmUsage>[] = []) => {
+        const supabase = {
+            recordLlmUsage: jest.fn().mockResolvedValue(undefined),
+            getLlmUsage: jest.fn().mockResolvedValue(usage),
+        };
+        const service = new UsageService(
+            { get: (key: string) => config[key] } as unknown as ConfigService,
+            supabase as unknown as SupabaseService,
+        );
+        return { service, supabase };
+    };
+
+    describe('record', () => {
+        it('attributes each call to the article and run it was made for', async () => {
+            const { service, supabase } = createService();
+
+            await Promise.all([
+                runWithUsageContext({ pipelineRunId: 'run-1', pipelineStage: 'writing' }, () =>
+                    runWithUsageContext({ articleId: 'article-1' }, () => service.record(call()))),
+                runWithUsageContext({ agentRunId: 'agent-run-2', articleId: 'article-2' }, () => service.record(call())),
+            ]);
+
+            expect(supabase.recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({
+                article_id: 'article-1',
+                pipeline_run_id: 'run-1',
+                pipeline_stage: 'writing',
+                agent_run_id: null,
+            }));
+            expect(supabase.recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({
+                article_id: 'article-2',
+                pipeline_run_id: null,
+                agent_run_id: 'agent-run-2',
+            }));
+        });
+
+        it('records calls outside any context without attribution', async () => {
+            const { service, supabase } = createService();
+
+            await service.record(call());
+
+            expect(getUsageContext()).toEqual({});
+            expect(supabase.recordLlmUsage).toHaveBeenCalledWith(expect.objectContaining({ article_id: null, pipeline_run_id: null }));
+        });
+
+        it('prices the call from the pricing table, with LLM_PRICING_JSON overrides', async () => {
+            const { service, supabase } = createService({
+                LLM_PRICING_JSON: '{"local-llama":{"inputPerMillion":1,"outputPerMillion":2,"perImage":0}}',
+            });
+
+            await service.record(call());
+            await service.record(call({ model: 'local-llama' }));
+            await service.record(call({ model: 'unknown-model' }));
+
+            const costs = supabase.recordLlmUsage.mock.calls.map(([row]: [{ cost_usd: number }]) => row.cost_usd);
+            expect(costs).toEqual([0.0003, 0.002, 0]);
+        });
+
+        it('drops the row instead of throwing when it cannot be saved', async () => {
+            const { service, supabase } = createService();
+            supabase.recordLlmUsage.mockRejectedValue(new Error('connection reset'));
+
+            await expect(service.record(call())).resolves.toBeUndefined();
+        });
+    });
+
+    describe('budget', () => {
+        const runUsage = (agentRunId: string, costUsd: number): Partial<LlmUsage> => ({
+            agent_run_id: agentRunId,
+            model: 'gemini-2.0-flash',
+            prompt_tokens: 1000,
+            completion_tokens: 0,
+            image_count: 0,
+            latency_ms: 0,
+            cost_usd: costUsd,
+        });
+
+        it('estimates the next run from the average of the last 5 runs', async () => {
+            const { service } = createService({}, [
+                runUsage('run-1', 10),
+                runUsage('run-2', 0.1),
+                runUsage('run-2', 0.1),
+                runUsage('run-3', 0.3),
+                runUsage('run-4', 0.4),
+                runUsage('run-5', 0.5),
+                runUsage('run-6', 0.6),
+            ]);
+
+            await expect(service.estimateAgentRunUsage()).resolves.toEqual({ tokens: 1200, costUsd: 0.4 });
+        });
+
+        it('estimates nothing without run history', async () => {
+            const { service } = createService();
+
+            await expect(service.estimateAgentRunUsage()).resolves.toEqual({ tokens: 0, costUsd: 0 });
+        });
+
+        it('lists every limit the next run would break', async () => {
+            const { service } = createService({}, [runUsage('run-1', 0.5)]);
+
+            const check = await service.checkBudget({ dailyBudgetUsd: 0.8, monthlyBudgetUsd: 10, dailyBudgetTokens: 1500 });
+
+            expect(check.allowed).toBe(false);
+            expect(check.reasons).toEqual([
+                'Daily USD budget: 0.5 spent + 0.5 estimated exceeds limit of 0.8',
+                'Daily token budget: 1000 spent + 1000 estimated exceeds limit of 1500',
+            ]);
+        });
+    });
+
+    it('summarizes article usage by stage and model', async () => {
+        const { service } = createService({}, [
+            { model: 'gemini-2.0-flash', llm_stage: 'writing', pipeline_stage: 'writing', prompt_tokens: 100, completion_tokens: 50, image_count: 0, latency_ms: 10, cost_usd: 0.00003 },
+            { model: 'gemini-2.5-flash-image', llm_stage: 'image', pipeline_stage: 'visualGeneration', prompt_tokens: 0, completion_tokens: 0, image_count: 1, latency_ms: 20, cost_usd: 0.039 },
+        ]);
+
+        const summary = await service.getArticleUsage('article-1');
+
+        expect(summary.totals).toMatchObject({ calls: 2, totalTokens: 150, images: 1, costUsd: 0.03903 });
+        expect(Object.keys(summary.byStage)).toEqual(['writing', 'visualGeneration']);
+        expect(summary.byModel['gemini-2.5-flash-image'].images).toBe(1);
+    });
+});
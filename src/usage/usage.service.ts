@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService, LlmUsage } from '../supabase/supabase.service';
+import { calculateCost, DEFAULT_MODEL_PRICING, ModelPricing } from './llm-pricing';
+import { getUsageContext } from './usage-context';
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    images: number;
+    costUsd: number;
+    latencyMs: number;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    byStage: Record<string, UsageTotals>;
+    byModel: Record<string, UsageTotals>;
+    entries: LlmUsage[];
+}
+
+export interface DailySpend extends UsageTotals {
+    date: string;
+}
+
+/**
+ * Spend limits; null or undefined means unlimited
+ */
+export interface BudgetLimits {
+    dailyBudgetUsd?: number | null;
+    monthlyBudgetUsd?: number | null;
+    dailyBudgetTokens?: number | null;
+    monthlyBudgetTokens?: number | null;
+}
+
+export interface BudgetCheck {
+    allowed: boolean;
+    reasons: string[];
+    today: UsageTotals;
+    month: UsageTotals;
+    estimatedRun: { tokens: number; costUsd: number };
+}
+
+export interface LlmCallUsage {
+    provider: string;
+    model: string;
+    llmStage: string;
+    promptTokens: number;
+    completionTokens: number;
+    imageCount: number;
+    latencyMs: number;
+}
+
+@Injectable()
+export class UsageService {
+    private readonly logger = new Logger(UsageService.name);
+    private readonly pricing: Record<string, ModelPricing>;
+    private readonly unpricedModels = new Set<string>();
+
+    constructor(
+        private configService: ConfigService,
+        private supabaseService: SupabaseService,
+    ) {
+        this.pricing = { ...DEFAULT_MODEL_PRICING, ...this.loadPricingOverrides() };
+    }
+
+    /**
+     * Record a single LLM call, attributed to the current usage context.
+     * Never throws: losing a usage row must not fail a generation.
+     */
+    async record(call: LlmCallUsage): Promise<void> {
+        const context = getUsageContext();
+        const pricing = this.pricing[call.model];
+
+        if (!pricing && !this.unpricedModels.has(call.model)) {
+            this.unpricedModels.add(call.model);
+            this.logger.warn(`No pricing configured for model "${call.model}", recording cost as 0`);
+        }
+
+        try {
+            await this.supabaseService.recordLlmUsage({
+                provider: call.provider,
+                model: call.model,
+                llm_stage: call.llmStage,
+                pipeline_stage: context.pipelineStage ?? null,
+                article_id: context.articleId ?? null,
+                pipeline_run_id: context.pipelineRunId ?? null,
+                agent_run_id: context.agentRunId ?? null,
+                prompt_tokens: call.promptTokens,
+                completion_tokens: call.completionTokens,
+                image_count: call.imageCount,
+                latency_ms: call.latencyMs,
+                cost_usd: calculateCost(pricing, call.promptTokens, call.completionTokens, call.imageCount),
+            });
+        } catch (error) {
+            this.logger.warn('Dropping LLM usage record', error);
+        }
+    }
+
+    /**
+     * Usage for every LLM call made while generating an article
+     */
+    async getArticleUsage(articleId: string): Promise<UsageSummary> {
+        const entries = await this.supabaseService.getLlmUsage({ articleId });
+        return this.summarize(entries);
+    }
+
+    /**
+     * Usage for an autonomous agent run, including the article it generated
+     */
+    async getAgentRunUsage(agentRunId: string): Promise<UsageSummary> {
+        const entries = await this.supabaseService.getLlmUsage({ agentRunId });
+        return this.summarize(entries);
+    }
+
+    /**
+     * Spend per UTC day between two dates (to is exclusive)
+     */
+    async getDailySpend(from: Date, to: Date): Promise<DailySpend[]> {
+        const entries = await this.supabaseService.getLlmUsage({
+            from: from.toISOString(),
+            to: to.toISOString(),
+        });
+
+        const days = new Map<string, UsageTotals>();
+        for (const entry of entries) {
+            const date = entry.created_at.substring(0, 10);
+            days.set(date, this.add(days.get(date) ?? this.emptyTotals(), entry));
+        }
+
+        return Array.from(days.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, totals]) => ({ date, ...totals }));
+    }
+
+    /**
+     * Total usage between two dates (to is exclusive)
+     */
+    async getTotals(from: Date, to: Date): Promise<UsageTotals> {
+        const entries = await this.supabaseService.getLlmUsage({
+            from: from.toISOString(),
+            to: to.toISOString(),
+        });
+        return entries.reduce((totals, entry) => this.add(totals, entry), this.emptyTotals());
+    }
+
+    /**
+     * Average usage of recent agent runs, used as the cost estimate for the next one
+     */
+    async estimateAgentRunUsage(sampleSize = 5): Promise<{ tokens: number; costUsd: number }> {
+        const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+        const entries = await this.supabaseService.getLlmUsage({
+            agentRunsOnly: true,
+            from: since.toISOString(),
+        });
+
+        const runs = new Map<string, UsageTotals>();
+        for (const entry of entries) {
+            const runId = entry.agent_run_id as string;
+            runs.set(runId, this.add(runs.get(runId) ?? this.emptyTotals(), entry));
+        }
+
+        // Entries are ordered oldest first, so the last runs in the map are the most recent
+        const recent = Array.from(runs.values()).slice(-sampleSize);
+        if (recent.length === 0) return { tokens: 0, costUsd: 0 };
+
+        return {
+            tokens: Math.round(recent.reduce((sum, run) => sum + run.totalTokens, 0) / recent.length),
+            costUsd: Math.round((recent.reduce((sum, run) => sum + run.costUsd, 0) / recent.length) * 1_000_000) / 1_000_000,
+        };
+    }
+
+    /**
+     * Check whether one more agent run fits into the daily and monthly budgets (UTC)
+     */
+    async checkBudget(limits: BudgetLimits): Promise<BudgetCheck> {
+        const now = new Date();
+        const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+        const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+        const [today, month, estimatedRun] = await Promise.all([
+            this.getTotals(dayStart, now),
+            this.getTotals(monthStart, now),
+            this.estimateAgentRunUsage(),
+        ]);
+
+        const reasons: string[] = [];
+        const exceeds = (label: string, spent: number, estimate: number, limit?: number | null) => {
+            if (limit === null || limit === undefined) return;
+            if (spent + estimate > limit) {
+                reasons.push(`${label}: ${spent} spent + ${estimate} estimated exceeds limit of ${limit}`);
+            }
+        };
+
+        exceeds('Daily USD budget', today.costUsd, estimatedRun.costUsd, limits.dailyBudgetUsd);
+        exceeds('Monthly USD budget', month.costUsd, estimatedRun.costUsd, limits.monthlyBudgetUsd);
+        exceeds('Daily token budget', today.totalTokens, estimatedRun.tokens, limits.dailyBudgetTokens);
+        exceeds('Monthly token budget', month.totalTokens, estimatedRun.tokens, limits.monthlyBudgetTokens);
+
+        return { allowed: reasons.length === 0, reasons, today, month, estimatedRun };
+    }
+
+    private summarize(entries: LlmUsage[]): UsageSummary {
+        const summary: UsageSummary = {
+            totals: this.emptyTotals(),
+            byStage: {},
+            byModel: {},
+            entries,
+        };
+
+        for (const entry of entries) {
+            const stage = entry.pipeline_stage ?? entry.llm_stage;
+            summary.totals = this.add(summary.totals, entry);
+            summary.byStage[stage] = this.add(summary.byStage[stage] ?? this.emptyTotals(), entry);
+            summary.byModel[entry.model] = this.add(summary.byModel[entry.model] ?? this.emptyTotals(), entry);
+        }
+
+        return summary;
+    }
+
+    private add(totals: UsageTotals, entry: LlmUsage): UsageTotals {
+        return {
+            calls: totals.calls + 1,
+            promptTokens: totals.promptTokens + entry.prompt_tokens,
+            completionTokens: totals.completionTokens + entry.completion_tokens,
+            totalTokens: totals.totalTokens + entry.prompt_tokens + entry.completion_tokens,
+            images: totals.images + entry.image_count,
+            costUsd: Math.round((totals.costUsd + Number(entry.cost_usd)) * 1_000_000) / 1_000_000,
+            latencyMs: totals.latencyMs + entry.latency_ms,
+        };
+    }
+
+    private emptyTotals(): UsageTotals {
+        return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, images: 0, costUsd: 0, latencyMs: 0 };
+    }
+
+    private loadPricingOverrides(): Record<string, ModelPricing> {
+        const raw = this.configService.get<string>('LLM_PRICING_JSON');
+        if (!raw) return {};
+
+        try {
+            return JSON.parse(raw) as Record<string, ModelPricing>;
+        } catch (error) {
+            this.logger.error('LLM_PRICING_JSON is not valid JSON, using default pricing', error);
+            return {};
+        }
+    }
+}
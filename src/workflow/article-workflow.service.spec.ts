@@ -0,0 +1,91 @@
+import { HttpStatus } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Article, SupabaseService } from '../supabase/supabase.service';
+import { ArticleWorkflowService } from './article-workflow.service';
+import { IllegalTransitionError } from './article-workflow';
+
+describe('ArticleWorkflowService', () => {
+    const article = (overrides: Partial<Article> = {}) => ({
+        id: 'article-1',
+        title: 'Title',
+        slug: 'title',
+        status: 'review',
+        publish_at: null,
+        published_at: null,
+        ...overrides,
+    }) as Article;
+
+    const createService = (current: Article, updated: Article | null) => {
+        const supabase = {
+            getArticle: jest.fn().mockResolvedValue(current),
+            updateArticleStatus: jest.fn().mockResolvedValue(updated),
+            createStatusTransition: jest.fn().mockResolvedValue({}),
+        };
+        const events = { emit: jest.fn() };
+        const service = new ArticleWorkflowService(
+            supabase as unknown as SupabaseService,
+            events as unknown as EventEmitter2,
+        );
+        return { service, supabase, events };
+    };
+
+    it('applies an allowed transition and records who made it', async () => {
+        const { service, supabase, events } = createService(article(), article({ status: 'approved' }));
+
+        const result = await service.transition('article-1', 'approved', { actor: 'editor-1', reason: 'Looks good' });
+
+        expect(result?.status).toBe('approved');
+        expect(supabase.updateArticleStatus).toHaveBeenCalledWith('article-1', 'review', 'approved', {});
+        expect(supabase.createStatusTransition).toHaveBeenCalledWith({
+            article_id: 'article-1',
+            from_status: 'review',
+            to_status: 'approved',
+            actor: 'editor-1',
+            reason: 'Looks good',
+        });
+        expect(events.emit).toHaveBeenCalledWith('article.status.changed', expect.objectContaining({ from: 'review', to: 'approved' }));
+    });
+
+    it('rejects transitions the state machine does not allow with 409', async () => {
+        const { service, supabase } = createService(article({ status: 'processing' }), null);
+
+        const attempt = service.transition('article-1', 'published', { actor: 'admin' });
+
+        await expect(attempt).rejects.toBeInstanceOf(IllegalTransitionError);
+        await expect(attempt).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+        expect(supabase.updateArticleStatus).not.toHaveBeenCalled();
+        expect(supabase.createStatusTransition).not.toHaveBeenCalled();
+    });
+
+    it('fails with 409 when the status changed concurrently', async () => {
+        const { service, supabase } = createService(article({ status: 'approved' }), null);
+
+        await expect(service.transition('article-1', 'published', { actor: 'admin' }))
+            .rejects.toBeInstanceOf(IllegalTransitionError);
+        expect(supabase.createStatusTransition).not.toHaveBeenCalled();
+    });
+
+    it('stamps published_at and emits article.published when publishing a scheduled article', async () => {
+        const scheduled = article({ status: 'scheduled', publish_at: '2026-01-01T09:00:00.000Z' });
+        const { service, supabase, events } = createService(
+            scheduled,
+            article({ status: 'published', published_at: '2026-01-01T09:00:30.000Z' }),
+        );
+
+        await service.transition('article-1', 'published', { actor: 'scheduler' });
+
+        expect(supabase.updateArticleStatus).toHaveBeenCalledWith('article-1', 'scheduled', 'published', {
+            published_at: expect.any(String) as unknown as string,
+        });
+        expect(events.emit).toHaveBeenCalledWith('article.published', expect.objectContaining({
+            articleId: 'article-1',
+            scheduledFor: '2026-01-01T09:00:00.000Z',
+        }));
+    });
+
+    it('returns null for a missing article', async () => {
+        const { service } = createService(null as unknown as Article, null);
+
+        await expect(service.transition('missing', 'approved', { actor: 'admin' })).resolves.toBeNull();
+    });
+});
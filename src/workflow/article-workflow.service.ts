@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { SupabaseService, Article, ArticleStatusTransition } from '../supabase/supabase.service';
+import { ArticleStatus, canTransition, IllegalTransitionError } from './article-workflow';
+
+export interface TransitionOptions {
+    /** Who made the change: a user id, or a system actor such as `pipeline` or `scheduler` */
+    actor: string;
+    reason?: string;
+    /** Extra fields written in the same update as the status */
+    updates?: Partial<Article>;
+}
+
+export interface ArticleStatusChangedEvent {
+    articleId: string;
+    from: ArticleStatus | null;
+    to: ArticleStatus;
+    actor: string;
+    reason: string | null;
+}
+
+export interface ArticlePublishedEvent {
+    articleId: string;
+    slug: string;
+    title: string;
+    publishedAt: string;
+    scheduledFor: string | null;
+}
+
+/**
+ * Single entry point for article status changes. Validates transitions
+ * against ARTICLE_TRANSITIONS, records each one in article_status_transitions
+ * and emits `article.status.changed` (plus `article.published`).
+ */
+@Injectable()
+export class ArticleWorkflowService {
+    private readonly logger = new Logger(ArticleWorkflowService.name);
+
+    constructor(
+        private supabaseService: SupabaseService,
+        private eventEmitter: EventEmitter2,
+    ) { }
+
+    /**
+     * Move an article to a new status.
+     * Returns null if the article does not exist; throws IllegalTransitionError (409)
+     * if the transition is not allowed or the status changed concurrently.
+     */
+    async transition(articleId: string, to: ArticleStatus, options: TransitionOptions): Promise<Article | null> {
+        const article = await this.supabaseService.getArticle(articleId);
+        if (!article) return null;
+
+        const from = article.status;
+        if (!canTransition(from, to)) {
+            throw new IllegalTransitionError(from, to);
+        }
+
+        const updates: Partial<Article> = { ...options.updates };
+        if (to === 'published') {
+            updates.published_at = new Date().toISOString();
+        }
+        if (from === 'scheduled' && to !== 'published' && to !== 'scheduled') {
+            updates.publish_at = null;
+        }
+
+        const updated = await this.supabaseService.updateArticleStatus(articleId, from, to, updates);
+        if (!updated) {
+            // Someone else moved the article between our read and write
+            const current = await this.supabaseService.getArticle(articleId);
+            throw new IllegalTransitionError(current?.status ?? from, to);
+        }
+
+        await this.record(updated, from, to, options.actor, options.reason);
+
+        if (to === 'published') {
+            const event: ArticlePublishedEvent = {
+                articleId: updated.id,
+                slug: updated.slug,
+                title: updated.title,
+                publishedAt: updated.published_at as string,
+                scheduledFor: from === 'scheduled' ? article.publish_at : null,
+            };
+            this.eventEmitter.emit('article.published', event);
+        }
+
+        return updated;
+    }
+
+    /**
+     * Record the initial status of a newly created article
+     */
+    async recordCreated(article: Article, actor: string): Promise<void> {
+        await this.record(article, null, article.status, actor);
+    }
+
+    /**
+     * Status history for an article, oldest first
+     */
+    async getHistory(articleId: string): Promise<ArticleStatusTransition[]> {
+        return this.supabaseService.getStatusTransitions(articleId);
+    }
+
+    private async record(article: Article, from: ArticleStatus | null, to: ArticleStatus, actor: string, reason?: string) {
+        try {
+            await this.supabaseService.createStatusTransition({
+                article_id: article.id,
+                from_status: from,
+                to_status: to,
+                actor,
+                reason: reason ?? null,
+            });
+        } catch (error) {
+            // The status change already happened; a missing audit row must not undo it
+            this.logger.error(`Failed to audit ${from ?? 'new'} → ${to} for article ${article.id}`, error);
+        }
+
+        const event: ArticleStatusChangedEvent = {
+            articleId: article.id,
+            from,
+            to,
+            actor,
+            reason: reason ?? null,
+        };
+        this.eventEmitter.emit('article.status.changed', event);
+    }
+}
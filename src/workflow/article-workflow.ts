@@ -0,0 +1,44 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Article } from '../supabase/supabase.service';
+
+export type ArticleStatus = Article['status'];
+
+/**
+ * Allowed status transitions for an article.
+ *
+ *   processing → review → approved → scheduled → published → archived
+ *
+ * Generation failures land in `failed` and can be retried. Scheduled
+ * articles can be rescheduled. Rejected, published and archived articles
+ * can be reopened as drafts.
+ */
+export const ARTICLE_TRANSITIONS: Record<ArticleStatus, readonly ArticleStatus[]> = {
+    draft: ['processing', 'review', 'archived'],
+    processing: ['review', 'failed'],
+    review: ['approved', 'rejected', 'draft'],
+    approved: ['scheduled', 'published', 'review', 'draft'],
+    rejected: ['draft', 'archived'],
+    scheduled: ['published', 'scheduled', 'approved', 'draft'],
+    published: ['archived', 'draft'],
+    archived: ['draft'],
+    failed: ['processing', 'draft', 'archived'],
+};
+
+export const ARTICLE_STATUSES = Object.keys(ARTICLE_TRANSITIONS) as ArticleStatus[];
+
+export function canTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+    return ARTICLE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Thrown for a transition the state machine does not allow, or when the
+ * article changed status underneath us. Surfaces as 409 Conflict.
+ */
+export class IllegalTransitionError extends HttpException {
+    constructor(readonly from: ArticleStatus, readonly to: ArticleStatus) {
+        super(
+            `Cannot move article from "${from}" to "${to}". Allowed: ${ARTICLE_TRANSITIONS[from]?.join(', ') || 'none'}`,
+            HttpStatus.CONFLICT,
+        );
+    }
+}
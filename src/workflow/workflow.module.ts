@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ArticleWorkflowService } from './article-workflow.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+    imports: [SupabaseModule],
+    providers: [ArticleWorkflowService],
+    exports: [ArticleWorkflowService],
+})
+export class WorkflowModule { }
@@ -0,0 +1,33 @@
+-- Pipeline runs and their per-stage checkpoints, see PipelineService.
+-- Checkpoints are upserted on (run_id, stage), so a retried stage replaces
+-- its earlier result.
+
+create table if not exists pipeline_runs (
+    id uuid primary key default gen_random_uuid(),
+    topic text not null,
+    author_id uuid references profiles (id) on delete set null,
+    article_id uuid references articles (id) on delete set null,
+    style_profile_id uuid references style_profiles (id) on delete set null,
+    locale text not null default 'en',
+    status text not null default 'running'
+        check (status in ('queued', 'running', 'completed', 'failed')),
+    current_stage text,
+    errors jsonb not null default '[]',
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    completed_at timestamptz
+);
+
+-- Queued runs are re-queued on boot, oldest first
+create index if not exists pipeline_runs_status_created_at_idx on pipeline_runs (status, created_at);
+
+create table if not exists pipeline_stage_results (
+    id uuid primary key default gen_random_uuid(),
+    run_id uuid not null references pipeline_runs (id) on delete cascade,
+    stage text not null,
+    succeeded boolean not null,
+    output jsonb not null default '{}',
+    error text,
+    completed_at timestamptz not null default now(),
+    constraint pipeline_stage_results_run_id_stage_key unique (run_id, stage)
+);
@@ -0,0 +1,4 @@
+-- One variant per locale in a translation group, see TranslationService.
+-- Articles outside a group have a null translation_group_id and are unaffected.
+create unique index if not exists articles_translation_group_id_locale_key
+    on articles (translation_group_id, locale);
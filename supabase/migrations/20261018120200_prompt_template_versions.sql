@@ -0,0 +1,4 @@
+-- Each prompt version number is used once, see PromptsService. A concurrent
+-- edit that loses the race gets a unique violation and retries with the next number.
+create unique index if not exists prompt_templates_key_version_key
+    on prompt_templates (key, version);